@@ -35,10 +35,10 @@ namespace MakerJs.angle {
     /**
      * Get an arc's end angle, ensured to be greater than its start angle.
      * 
-     * @param arc An arc path object.
+     * @param arc An arc or elliptic arc path object.
      * @returns End angle of arc.
      */
-    export function ofArcEnd(arc: IPathArc): number {
+    export function ofArcEnd(arc: IPathArc | IPathEllipticArc): number {
         //compensate for values past zero. This allows easy compute of total angle size.
         //for example 0 = 360
         if (arc.endAngle < arc.startAngle) {
@@ -50,21 +50,21 @@ namespace MakerJs.angle {
     /**
      * Get the angle in the middle of an arc's start and end angles.
      * 
-     * @param arc An arc path object.
+     * @param arc An arc or elliptic arc path object.
      * @param ratio Optional number between 0 and 1 specifying percentage between start and end angles. Default is .5
      * @returns Middle angle of arc.
      */
-    export function ofArcMiddle(arc: IPathArc, ratio = .5): number {
+    export function ofArcMiddle(arc: IPathArc | IPathEllipticArc, ratio = .5): number {
         return arc.startAngle + ofArcSpan(arc) * ratio;
     }
 
     /**
      * Total angle of an arc between its start and end angles.
      * 
-     * @param arc The arc to measure.
+     * @param arc The arc or elliptic arc to measure.
      * @returns Angle of arc.
      */
-    export function ofArcSpan(arc: IPathArc): number {
+    export function ofArcSpan(arc: IPathArc | IPathEllipticArc): number {
         var endAngle = angle.ofArcEnd(arc);
         var a = round(endAngle - arc.startAngle);
         if (a > 360) {
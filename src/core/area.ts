@@ -0,0 +1,278 @@
+namespace MakerJs.measure {
+
+    /**
+     * Integrals around the boundary of a region, from which its area and centroid are found by Green's theorem.
+     * @private
+     */
+    interface IAreaMoments {
+
+        /**
+         * Signed area, positive when counter-clockwise.
+         */
+        area: number;
+
+        /**
+         * Signed first moments of area, about the y axis and the x axis.
+         */
+        momentX: number;
+        momentY: number;
+    }
+
+    /**
+     * @private
+     */
+    function lineMoments(a: IPoint, b: IPoint, moments: IAreaMoments) {
+        //the same integrals as of an arc, so that they may be summed around a chain
+        moments.area += (a[0] * b[1] - b[0] * a[1]) / 2;
+        moments.momentX += (b[1] - a[1]) * (a[0] * a[0] + a[0] * b[0] + b[0] * b[0]) / 6;
+        moments.momentY -= (b[0] - a[0]) * (a[1] * a[1] + a[1] * b[1] + b[1] * b[1]) / 6;
+    }
+
+    /**
+     * Exact moments of a circular arc, traveling from one angle to another, in radians.
+     * @private
+     */
+    function arcMoments(center: IPoint, radius: number, fromAngle: number, toAngle: number, moments: IAreaMoments) {
+        var cx = center[0];
+        var cy = center[1];
+        var r = radius;
+        var sin = Math.sin;
+        var cos = Math.cos;
+
+        //antiderivatives of (x dy - y dx) / 2, x * x dy / 2 and -y * y dx / 2
+        function area(t: number) {
+            return (r * r * t + cx * r * sin(t) - cy * r * cos(t)) / 2;
+        }
+
+        function momentX(t: number) {
+            return r * (cx * cx * sin(t) + 2 * cx * r * (t / 2 + sin(2 * t) / 4) + r * r * (sin(t) - Math.pow(sin(t), 3) / 3)) / 2;
+        }
+
+        function momentY(t: number) {
+            return r * (-cy * cy * cos(t) + 2 * cy * r * (t / 2 - sin(2 * t) / 4) + r * r * (-cos(t) + Math.pow(cos(t), 3) / 3)) / 2;
+        }
+
+        moments.area += area(toAngle) - area(fromAngle);
+        moments.momentX += momentX(toAngle) - momentX(fromAngle);
+        moments.momentY += momentY(toAngle) - momentY(fromAngle);
+    }
+
+    /**
+     * Moments of a parametric curve, traveling from one parameter to another, by Simpson's rule.
+     * @private
+     */
+    function curveMoments(pointAt: (t: number) => IPoint, derivativeAt: (t: number) => IPoint, from: number, to: number, steps: number, moments: IAreaMoments) {
+        var n = 2 * steps;
+        var h = (to - from) / n;
+
+        for (var i = 0; i <= n; i++) {
+            var t = from + i * h;
+            var p = pointAt(t);
+            var d = derivativeAt(t);
+            var weight = h / 3 * ((i === 0 || i === n) ? 1 : (i % 2 ? 4 : 2));
+
+            //the same integrands as of lines and arcs
+            moments.area += weight * (p[0] * d[1] - p[1] * d[0]) / 2;
+            moments.momentX += weight * p[0] * p[0] * d[1] / 2;
+            moments.momentY -= weight * p[1] * p[1] * d[0] / 2;
+        }
+    }
+
+    /**
+     * Moments of an ellipse or elliptic arc, traveling from one parametric angle to another, in radians.
+     * @private
+     */
+    function ellipseMoments(ellipse: IPathEllipse, fromAngle: number, toAngle: number, moments: IAreaMoments) {
+        var rotation = (ellipse.angleOfRotation || 0) * Math.PI / 180;
+        var cos = Math.cos(rotation);
+        var sin = Math.sin(rotation);
+        var a = ellipse.radiusX;
+        var b = ellipse.radiusY;
+
+        function pointAt(t: number): IPoint {
+            var x = a * Math.cos(t);
+            var y = b * Math.sin(t);
+            return [ellipse.origin[0] + x * cos - y * sin, ellipse.origin[1] + x * sin + y * cos];
+        }
+
+        function derivativeAt(t: number): IPoint {
+            var dx = -a * Math.sin(t);
+            var dy = b * Math.cos(t);
+            return [dx * cos - dy * sin, dx * sin + dy * cos];
+        }
+
+        curveMoments(pointAt, derivativeAt, fromAngle, toAngle, Math.ceil(Math.abs(toAngle - fromAngle) / Math.PI * 64), moments);
+    }
+
+    /**
+     * @private
+     */
+    function chainMoments(chainContext: IChain): IAreaMoments {
+        var moments: IAreaMoments = { area: 0, momentX: 0, momentY: 0 };
+
+        chainContext.links.forEach(function (link: IChainLink) {
+            var pathContext = path.moveRelative(path.clone(link.walkedPath.pathContext), link.walkedPath.offset);
+
+            switch (pathContext.type) {
+                case pathType.Arc:
+                case pathType.Circle:
+                    var arc = <IPathArc>pathContext;
+                    var startAngle = pathContext.type === pathType.Arc ? arc.startAngle : 0;
+                    var span = pathContext.type === pathType.Arc ? angle.ofArcSpan(arc) : 360;
+
+                    //not angle.toRadians, which would remove a full revolution
+                    var from = startAngle * Math.PI / 180;
+                    var to = (startAngle + span) * Math.PI / 180;
+
+                    if (link.reversed) {
+                        arcMoments(arc.origin, arc.radius, to, from, moments);
+                    } else {
+                        arcMoments(arc.origin, arc.radius, from, to, moments);
+                    }
+                    break;
+
+                case pathType.Ellipse:
+                case pathType.EllipticArc:
+                    var ellipse = <IPathEllipticArc>pathContext;
+                    var ellipseStart = pathContext.type === pathType.EllipticArc ? ellipse.startAngle : 0;
+                    var ellipseSpan = pathContext.type === pathType.EllipticArc ? angle.ofArcSpan(ellipse) : 360;
+                    var ellipseFrom = ellipseStart * Math.PI / 180;
+                    var ellipseTo = (ellipseStart + ellipseSpan) * Math.PI / 180;
+
+                    if (link.reversed) {
+                        ellipseMoments(ellipse, ellipseTo, ellipseFrom, moments);
+                    } else {
+                        ellipseMoments(ellipse, ellipseFrom, ellipseTo, moments);
+                    }
+                    break;
+
+                case pathType.BezierSeed:
+                    var seed = <IPathBezierSeed>pathContext;
+
+                    curveMoments(
+                        function (t: number) { return models.BezierCurve.computePoint(seed, t); },
+                        function (t: number) { return models.BezierCurve.computeDerivative(seed, t); },
+                        link.reversed ? 1 : 0,
+                        link.reversed ? 0 : 1,
+                        64,
+                        moments
+                    );
+                    break;
+
+                default:
+                    //other paths are measured by their chord
+                    if (link.endPoints) {
+                        lineMoments(link.endPoints[link.reversed ? 1 : 0], link.endPoints[link.reversed ? 0 : 1], moments);
+                    }
+                    break;
+            }
+        });
+
+        return moments;
+    }
+
+    /**
+     * Get the area within an endless chain. Arcs are measured exactly, ellipses and curves by numerical integration.
+     *
+     * @param chainContext The chain to measure.
+     * @returns Signed area, which is positive when the chain is counter-clockwise and negative when clockwise. Returns null if the chain is not endless.
+     */
+    export function chainArea(chainContext: IChain): number {
+        if (!chainContext.endless) return null;
+
+        return chainMoments(chainContext).area;
+    }
+
+    /**
+     * Get the center of area of an endless chain.
+     *
+     * @param chainContext The chain to measure.
+     * @returns Centroid point, or null if the chain is not endless or has no area.
+     */
+    export function chainCentroid(chainContext: IChain): IPoint {
+        if (!chainContext.endless) return null;
+
+        var moments = chainMoments(chainContext);
+        if (round(moments.area) === 0) return null;
+
+        return [moments.momentX / moments.area, moments.momentY / moments.area];
+    }
+
+    /**
+     * Check the winding direction of an endless chain.
+     *
+     * @param chainContext The chain to check.
+     * @returns True if the chain is clockwise, false if counter-clockwise, or null if the chain is not endless.
+     */
+    export function isChainClockwise(chainContext: IChain): boolean {
+        var area = chainArea(chainContext);
+        if (area === null) return null;
+
+        return area < 0;
+    }
+
+    /**
+     * Moments of the loops of a model, where loops within loops are holes.
+     * @private
+     */
+    function modelMoments(modelContext: IModel, options?: IPointMatchOptions): IAreaMoments {
+        var moments: IAreaMoments = { area: 0, momentX: 0, momentY: 0 };
+
+        //finding loops originates the model, so use a copy
+        var loops = model.findLoops(cloneObject(modelContext), options);
+        var depth = 0;
+        var depthModel: IModel;
+
+        while (loops.models && (depthModel = loops.models[depth])) {
+
+            //odd depths are holes
+            var sign = depth % 2 === 0 ? 1 : -1;
+
+            for (var loopId in depthModel.models) {
+                model.findChains(depthModel.models[loopId], function (chains: IChain[]) {
+                    chains.forEach(function (chainContext: IChain) {
+                        if (!chainContext.endless) return;
+
+                        var chainContextMoments = chainMoments(chainContext);
+
+                        //holes subtract regardless of their winding
+                        var windingSign = chainContextMoments.area < 0 ? -sign : sign;
+
+                        moments.area += windingSign * chainContextMoments.area;
+                        moments.momentX += windingSign * chainContextMoments.momentX;
+                        moments.momentY += windingSign * chainContextMoments.momentY;
+                    });
+                }, options);
+            }
+
+            depth++;
+        }
+
+        return moments;
+    }
+
+    /**
+     * Get the area of the loops of a model. Loops within loops are holes, which are subtracted.
+     *
+     * @param modelContext The model to measure.
+     * @param options Optional options object.
+     * @returns Area of the model.
+     */
+    export function modelArea(modelContext: IModel, options?: IPointMatchOptions): number {
+        return modelMoments(modelContext, options).area;
+    }
+
+    /**
+     * Get the center of area of the loops of a model. Loops within loops are holes, which are subtracted.
+     *
+     * @param modelContext The model to measure.
+     * @param options Optional options object.
+     * @returns Centroid point, or null if the model has no area.
+     */
+    export function modelCentroid(modelContext: IModel, options?: IPointMatchOptions): IPoint {
+        var moments = modelMoments(modelContext, options);
+        if (round(moments.area) === 0) return null;
+
+        return [moments.momentX / moments.area, moments.momentY / moments.area];
+    }
+}
@@ -153,6 +153,8 @@
                 if (
                     walkedPath.pathContext.type === pathType.Circle ||
                     (walkedPath.pathContext.type === pathType.Arc && round(angle.ofArcSpan(walkedPath.pathContext as IPathArc) - 360) === 0) ||
+                    walkedPath.pathContext.type === pathType.Ellipse ||
+                    (walkedPath.pathContext.type === pathType.EllipticArc && round(angle.ofArcSpan(walkedPath.pathContext as IPathEllipticArc) - 360) === 0) ||
                     (walkedPath.pathContext.type === pathType.BezierSeed && measure.isPointEqual(walkedPath.pathContext.origin, (walkedPath.pathContext as IPathBezierSeed).end, opts.pointMatchingDistance))
                 ) {
 
@@ -228,3 +230,63 @@
     }
 
 }
+
+namespace MakerJs.chain {
+
+    /**
+     * Find the direction of travel at the start or end of a path, such as a link of a chain. Arcs, circles and ellipses travel counter-clockwise unless reversed.
+     *
+     * @param pathContext The path to measure.
+     * @param reversed Flag to travel the path from its end to its start, as in a reversed link.
+     * @param atStart Flag to measure where travel starts, instead of where it ends.
+     * @returns Unit vector of the direction of travel, or null if the path cannot be measured.
+     */
+    export function pathTangent(pathContext: IPath, reversed: boolean, atStart: boolean): IPoint {
+        var a = path.tangentAtDistance(pathContext, atStart ? 0 : measure.pathLength(pathContext), reversed);
+        if (a === null) return null;
+
+        var radians = a * Math.PI / 180;
+        return [Math.cos(radians), Math.sin(radians)];
+    }
+
+    /**
+     * Reverse the direction of a chain, such as to change its winding.
+     *
+     * @param chainToReverse The chain to change.
+     * @returns The chain, for cascading.
+     */
+    export function reverse(chainToReverse: IChain): IChain {
+        chainToReverse.links.reverse();
+
+        chainToReverse.links.forEach(function (link: IChainLink) {
+            link.reversed = !link.reversed;
+        });
+
+        return chainToReverse;
+    }
+
+    /**
+     * Create a new model of the paths of a chain, in absolute coordinates. Lines are drawn in the direction of travel.
+     *
+     * @param chainContext The chain to copy.
+     * @returns A new model with a path for each link of the chain, in order.
+     */
+    export function toNewModel(chainContext: IChain): IModel {
+        var result: IModel = { paths: {} };
+
+        chainContext.links.forEach(function (link: IChainLink, i: number) {
+            var pathContext = path.moveRelative(path.clone(link.walkedPath.pathContext), link.walkedPath.offset);
+
+            if (pathContext.type === pathType.Line && link.reversed) {
+                var line = <IPathLine>pathContext;
+                var origin = line.origin;
+                line.origin = line.end;
+                line.end = origin;
+            }
+
+            result.paths[pathContext.type + '_' + i] = pathContext;
+        });
+
+        return result;
+    }
+}
@@ -0,0 +1,119 @@
+namespace MakerJs.chain {
+
+    /**
+     * A link of a chain, with a distance along its path in the direction of the chain.
+     * @private
+     */
+    interface ILinkAtDistance {
+        link: IChainLink;
+        distance: number;
+    }
+
+    /**
+     * @private
+     */
+    function linkAtDistance(chainContext: IChain, distance: number): ILinkAtDistance {
+        var chainLength = length(chainContext);
+
+        //an endless chain continues around
+        if (chainContext.endless && chainLength > 0) {
+            distance = distance % chainLength;
+            if (distance < 0) {
+                distance += chainLength;
+            }
+        }
+
+        if (round(distance) < 0 || round(distance - chainLength) > 0) return null;
+
+        var start = 0;
+
+        for (var i = 0; i < chainContext.links.length; i++) {
+            var link = chainContext.links[i];
+            var linkLength = measure.pathLength(link.walkedPath.pathContext) || 0;
+
+            //the last link takes any distance beyond the end, due to rounding
+            if (distance <= start + linkLength || i === chainContext.links.length - 1) {
+                return { link: link, distance: Math.min(Math.max(distance - start, 0), linkLength) };
+            }
+
+            start += linkLength;
+        }
+
+        return null;
+    }
+
+    /**
+     * Get the length of a chain.
+     *
+     * @param chainContext The chain to measure.
+     * @returns Total length of the paths of the chain.
+     */
+    export function length(chainContext: IChain): number {
+        var total = 0;
+
+        chainContext.links.forEach(function (link: IChainLink) {
+            total += measure.pathLength(link.walkedPath.pathContext) || 0;
+        });
+
+        return total;
+    }
+
+    /**
+     * Find the point at a distance along a chain, in absolute coordinates. A distance on an endless chain continues around it.
+     *
+     * @param chainContext The chain to measure along.
+     * @param distance Distance from the start of the chain.
+     * @returns Point on the chain, or null if the distance is beyond the ends of an open chain.
+     */
+    export function pointAtDistance(chainContext: IChain, distance: number): IPoint {
+        var found = linkAtDistance(chainContext, distance);
+        if (!found) return null;
+
+        var p = path.pointAtDistance(found.link.walkedPath.pathContext, found.distance, found.link.reversed);
+        if (!p) return null;
+
+        return point.add(p, found.link.walkedPath.offset);
+    }
+
+    /**
+     * Find the angle of the direction of travel at a distance along a chain. A distance on an endless chain continues around it.
+     *
+     * @param chainContext The chain to measure along.
+     * @param distance Distance from the start of the chain.
+     * @returns Angle of the tangent in degrees, or null if the distance is beyond the ends of an open chain, or falls on a line of no length.
+     */
+    export function tangentAtDistance(chainContext: IChain, distance: number): number {
+        var found = linkAtDistance(chainContext, distance);
+        if (!found) return null;
+
+        return path.tangentAtDistance(found.link.walkedPath.pathContext, found.distance, found.link.reversed);
+    }
+
+    /**
+     * Get points at equal distances along a chain, in absolute coordinates, beginning at the start of the chain.
+     *
+     * @param chainContext The chain to get points of.
+     * @param spacing Distance between points along the chain.
+     * @returns Array of points. The end of an open chain is included when it falls on the spacing, the end of an endless chain is not since it is the start.
+     */
+    export function toPoints(chainContext: IChain, spacing: number): IPoint[] {
+        var result: IPoint[] = [];
+        if (!(spacing > 0)) return result;
+
+        var chainLength = length(chainContext);
+        var count = Math.floor(round(chainLength / spacing)) + 1;
+
+        if (chainContext.endless && round(chainLength - (count - 1) * spacing) === 0) {
+            count--;
+        }
+
+        for (var i = 0; i < count; i++) {
+            var p = pointAtDistance(chainContext, Math.min(i * spacing, chainLength));
+            if (p) {
+                result.push(p);
+            }
+        }
+
+        return result;
+    }
+}
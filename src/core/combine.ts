@@ -450,9 +450,10 @@
      *
      * @param modelA First model to combine.
      * @param modelB Second model to combine.
+     * @param options Optional ICombineOptions object.
      */
-    export function combineIntersection(modelA: IModel, modelB: IModel) {
-        return combine(modelA, modelB, true, false, true, false);
+    export function combineIntersection(modelA: IModel, modelB: IModel, options?: ICombineOptions) {
+        return combine(modelA, modelB, true, false, true, false, options);
     }
 
     /**
@@ -460,9 +461,10 @@
      *
      * @param modelA First model to combine.
      * @param modelB Second model to combine.
+     * @param options Optional ICombineOptions object.
      */
-    export function combineSubtraction(modelA: IModel, modelB: IModel) {
-        return combine(modelA, modelB, false, true, true, false);
+    export function combineSubtraction(modelA: IModel, modelB: IModel, options?: ICombineOptions) {
+        return combine(modelA, modelB, false, true, true, false, options);
     }
 
     /**
@@ -470,8 +472,9 @@
      *
      * @param modelA First model to combine.
      * @param modelB Second model to combine.
+     * @param options Optional ICombineOptions object.
      */
-    export function combineUnion(modelA: IModel, modelB: IModel) {
-        return combine(modelA, modelB, false, true, false, true);
+    export function combineUnion(modelA: IModel, modelB: IModel, options?: ICombineOptions) {
+        return combine(modelA, modelB, false, true, false, true, options);
     }
 }
@@ -0,0 +1,289 @@
+namespace MakerJs.model {
+
+    /**
+     * A chain to cut, with the layer it was found on.
+     * @private
+     */
+    interface ICutChain {
+        chain: IChain;
+        layer: string;
+
+        /**
+         * Indexes of the endless chains which contain this chain, which must be cut after it.
+         */
+        containers: number[];
+    }
+
+    /**
+     * @private
+     */
+    function chainStart(chainContext: IChain): IPoint {
+        var link = chainContext.links[0];
+
+        //a circle or a full arc has no end points
+        if (!link.endPoints) {
+            var pathContext = path.moveRelative(path.clone(link.walkedPath.pathContext), link.walkedPath.offset);
+            var startAngle = pathContext.type === pathType.Arc ? (<IPathArc>pathContext).startAngle : 0;
+            return point.fromAngleOnCircle(startAngle, <IPathCircle>pathContext);
+        }
+
+        return link.endPoints[link.reversed ? 1 : 0];
+    }
+
+    /**
+     * @private
+     */
+    function chainEnd(chainContext: IChain): IPoint {
+        if (chainContext.endless) return chainStart(chainContext);
+        var link = chainContext.links[chainContext.links.length - 1];
+        return link.endPoints[link.reversed ? 0 : 1];
+    }
+
+    /**
+     * @private
+     */
+    function travel(cutChains: ICutChain[], origin: IPoint): number {
+        var distance = 0;
+        var current = origin;
+
+        cutChains.forEach(function (cutChain: ICutChain) {
+            distance += measure.pointDistance(current, chainStart(cutChain.chain));
+            current = chainEnd(cutChain.chain);
+        });
+
+        return distance;
+    }
+
+    /**
+     * Check that every chain is cut before the chains which contain it.
+     * @private
+     */
+    function isOrderValid(order: number[], cutChains: ICutChain[]): boolean {
+        var position: number[] = [];
+
+        order.forEach(function (chainIndex: number, i: number) {
+            position[chainIndex] = i;
+        });
+
+        for (var i = 0; i < order.length; i++) {
+            var containers = cutChains[order[i]].containers;
+            for (var j = 0; j < containers.length; j++) {
+                if (position[containers[j]] < i) return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Order the chains of a model to reduce the travel between them, such as for a CNC machine, plasma or laser cutter.
+     *
+     * Chains inside of other chains are cut first, so that a part is not cut free of the sheet before its holes are cut.
+     * Chains are ordered by nearest neighbour, then improved by 2-opt. Endless chains start at their link end nearest to the previous chain, and open chains may be reversed.
+     *
+     * @param modelContext The model to cut.
+     * @param options Optional options object.
+     * @returns Object with the ordered chains, a new model of the chains in order, and the travel distance before and after ordering.
+     */
+    export function optimizeCutOrder(modelContext: IModel, options?: IOptimizeCutOrderOptions): ICutOrder {
+
+        var opts: IOptimizeCutOrderOptions = {
+            origin: [0, 0],
+            byLayers: true,
+            pointMatchingDistance: .005
+        };
+
+        extendObject(opts, options);
+
+        var cutChains: ICutChain[] = [];
+
+        findChains(modelContext, function (chains: IChain[], loose: IWalkPath[], layer: string) {
+            chains.forEach(function (chainContext: IChain) {
+                cutChains.push({ chain: chainContext, layer: layer, containers: [] });
+            });
+
+            //paths which are not in a chain are cut alone
+            loose.forEach(function (walkedPath: IWalkPath) {
+                var endPoints = point.fromPathEnds(walkedPath.pathContext, walkedPath.offset);
+                if (!endPoints) return;
+
+                var looseChain: IChain = {
+                    links: [{ walkedPath: walkedPath, reversed: false, endPoints: endPoints }],
+                    endless: false
+                };
+
+                cutChains.push({ chain: looseChain, layer: layer, containers: [] });
+            });
+        }, opts);
+
+        var travelBefore = travel(cutChains, opts.origin);
+
+        //find which endless chains contain each chain
+        var loopModels = cutChains.map(function (cutChain: ICutChain) {
+            return cutChain.chain.endless ? chain.toNewModel(cutChain.chain) : null;
+        });
+
+        cutChains.forEach(function (cutChain: ICutChain, i: number) {
+            var link = cutChain.chain.links[0];
+            var pathContext = path.moveRelative(path.clone(link.walkedPath.pathContext), link.walkedPath.offset);
+
+            loopModels.forEach(function (loopModel: IModel, j: number) {
+                if (loopModel && i !== j && isPathInsideModel(pathContext, loopModel)) {
+                    cutChain.containers.push(j);
+                }
+            });
+        });
+
+        //nearest neighbour, among the chains which have nothing left inside of them
+        var done: boolean[] = [];
+        var order: number[] = [];
+        var current = opts.origin;
+
+        function isReady(i: number): boolean {
+            for (var j = 0; j < cutChains.length; j++) {
+                if (!done[j] && cutChains[j].containers.indexOf(i) >= 0) return false;
+            }
+            return true;
+        }
+
+        while (order.length < cutChains.length) {
+            var nearest = -1;
+            var nearestDistance: number;
+            var nearestReversed: boolean;
+
+            cutChains.forEach(function (cutChain: ICutChain, i: number) {
+                if (done[i] || !isReady(i)) return;
+
+                if (cutChain.chain.endless) {
+                    chain.startAt(cutChain.chain, current);
+                }
+
+                var distance = measure.pointDistance(current, chainStart(cutChain.chain));
+                var reversed = false;
+
+                if (!cutChain.chain.endless) {
+                    var reversedDistance = measure.pointDistance(current, chainEnd(cutChain.chain));
+                    if (reversedDistance < distance) {
+                        distance = reversedDistance;
+                        reversed = true;
+                    }
+                }
+
+                if (nearest < 0 || distance < nearestDistance) {
+                    nearest = i;
+                    nearestDistance = distance;
+                    nearestReversed = reversed;
+                }
+            });
+
+            if (nearestReversed) {
+                chain.reverse(cutChains[nearest].chain);
+            }
+
+            done[nearest] = true;
+            order.push(nearest);
+            current = chainEnd(cutChains[nearest].chain);
+        }
+
+        //2-opt: reverse a run of chains when it shortens the travel to and from the run
+        function entry(i: number): IPoint {
+            return i < 0 ? opts.origin : chainStart(cutChains[order[i]].chain);
+        }
+
+        function exit(i: number): IPoint {
+            return i < 0 ? opts.origin : chainEnd(cutChains[order[i]].chain);
+        }
+
+        var improved = true;
+
+        while (improved) {
+            improved = false;
+
+            for (var i = 0; i < order.length - 1; i++) {
+                for (var j = i + 1; j < order.length; j++) {
+                    var before = measure.pointDistance(exit(i - 1), entry(i));
+                    var after = measure.pointDistance(exit(i - 1), exit(j));
+
+                    if (j < order.length - 1) {
+                        before += measure.pointDistance(exit(j), entry(j + 1));
+                        after += measure.pointDistance(entry(i), entry(j + 1));
+                    }
+
+                    if (round(before - after) <= 0) continue;
+
+                    var candidate = order.slice(0, i).concat(order.slice(i, j + 1).reverse(), order.slice(j + 1));
+                    if (!isOrderValid(candidate, cutChains)) continue;
+
+                    order = candidate;
+
+                    //open chains in the run are traveled in reverse
+                    for (var k = i; k <= j; k++) {
+                        var chainContext = cutChains[order[k]].chain;
+                        if (!chainContext.endless) {
+                            chain.reverse(chainContext);
+                        }
+                    }
+
+                    improved = true;
+                }
+            }
+        }
+
+        var ordered = order.map(function (i: number) { return cutChains[i]; });
+        var result: IModel = { models: {} };
+
+        ordered.forEach(function (cutChain: ICutChain, i: number) {
+            var chainModel = chain.toNewModel(cutChain.chain);
+
+            if (cutChain.layer) {
+                chainModel.layer = cutChain.layer;
+            }
+
+            result.models[i] = chainModel;
+        });
+
+        return {
+            chains: ordered.map(function (cutChain: ICutChain) { return cutChain.chain; }),
+            model: result,
+            travelBefore: travelBefore,
+            travelAfter: travel(ordered, opts.origin)
+        };
+    }
+
+    /**
+     * Options to pass to model.optimizeCutOrder.
+     */
+    export interface IOptimizeCutOrderOptions extends IFindChainsOptions {
+
+        /**
+         * Optional point where the machine starts. Default is [0, 0].
+         */
+        origin?: IPoint;
+    }
+
+    /**
+     * Chains in the order to cut them.
+     */
+    export interface ICutOrder {
+
+        /**
+         * The chains in order, with the links of each chain in the direction to cut.
+         */
+        chains: IChain[];
+
+        /**
+         * A new model with a child model for each chain, in order, which may be passed to any exporter. Lines are in the direction to cut.
+         */
+        model: IModel;
+
+        /**
+         * Total distance of travel between chains, in the order they were found.
+         */
+        travelBefore: number;
+
+        /**
+         * Total distance of travel between chains, in the optimized order.
+         */
+        travelAfter: number;
+    }
+}
@@ -85,8 +85,89 @@ namespace MakerJs.exporter {
             append(arc.endAngle);
         };
 
-        //TODO - handle scenario if any bezier seeds get passed
-        //map[pathType.BezierSeed]
+        function appendEllipse(ellipse: IPathEllipse, origin: IPoint, layer: string, startAngle: number, endAngle: number) {
+            var rotation = ellipse.angleOfRotation || 0;
+            var ratio = ellipse.radiusY / ellipse.radiusX;
+
+            //the major axis must be the longer one
+            if (ratio > 1) {
+                rotation += 90;
+                startAngle -= 90;
+                endAngle -= 90;
+                ratio = 1 / ratio;
+            }
+
+            var majorAxis = point.fromPolar(angle.toRadians(rotation), Math.max(ellipse.radiusX, ellipse.radiusY));
+
+            append("0");
+            append("ELLIPSE");
+            append("8");
+            append(defaultLayer(ellipse, layer));
+            append("10");
+            append(ellipse.origin[0] + origin[0]);
+            append("20");
+            append(ellipse.origin[1] + origin[1]);
+            append("11");
+            append(majorAxis[0]);
+            append("21");
+            append(majorAxis[1]);
+            append("40");
+            append(ratio);
+            //end parameter must stay past the start parameter, so a full ellipse ends at 2 pi
+            var startParameter = angle.toRadians(startAngle);
+
+            append("41");
+            append(startParameter);
+            append("42");
+            append(startParameter + (endAngle - startAngle) * Math.PI / 180);
+        }
+
+        map[pathType.Ellipse] = function (id: string, ellipse: IPathEllipse, origin: IPoint, layer: string) {
+            appendEllipse(ellipse, origin, layer, 0, 360);
+        };
+
+        map[pathType.EllipticArc] = function (id: string, ellipticArc: IPathEllipticArc, origin: IPoint, layer: string) {
+            appendEllipse(ellipticArc, origin, layer, ellipticArc.startAngle, angle.ofArcEnd(ellipticArc));
+        };
+
+        map[pathType.BezierSeed] = function (id: string, seed: IPathBezierSeed, origin: IPoint, layer: string) {
+            var controls = [seed.origin].concat(seed.controls, [seed.end]);
+            var degree = seed.controls.length + 1;
+
+            //a single bezier span is a clamped B-spline with no interior knots
+            var knots: number[] = [];
+            for (var i = 0; i <= degree; i++) {
+                knots.unshift(0);
+                knots.push(1);
+            }
+
+            append("0");
+            append("SPLINE");
+            append("8");
+            append(defaultLayer(seed, layer));
+            append("70");
+            append(8);
+            append("71");
+            append(degree);
+            append("72");
+            append(knots.length);
+            append("73");
+            append(controls.length);
+            append("74");
+            append(0);
+
+            knots.forEach(function (knot: number) {
+                append("40");
+                append(knot);
+            });
+
+            controls.forEach(function (p: IPoint) {
+                append("10");
+                append(p[0] + origin[0]);
+                append("20");
+                append(p[1] + origin[1]);
+            });
+        };
 
         function section(sectionFn: () => void) {
             append("0");
@@ -110,12 +191,321 @@ namespace MakerJs.exporter {
             append(units);
         }
 
+        function getLayerNames(): string[] {
+            var layerNames = modelToExport.layers ? Object.keys(modelToExport.layers) : [];
+
+            function addLayer(layer: string) {
+                if (layerNames.indexOf(layer) < 0) {
+                    layerNames.push(layer);
+                }
+            }
+
+            if (opts.layerTable) {
+                model.walk(modelToExport, {
+                    onPath: function (walkedPath: IWalkPath) {
+                        addLayer(String(defaultLayer(walkedPath.pathContext, walkedPath.layer)));
+                    },
+                    beforeChildWalk: function (walkedModel: IWalkModel) {
+                        if (blockNames[walkedModel.routeKey]) {
+                            addLayer(String(walkedModel.layer || 0));
+                        }
+                        return true;
+                    }
+                });
+            }
+
+            return layerNames;
+        }
+
+        function tables() {
+            append("2");
+            append("TABLES");
+
+            var layerMap = modelToExport.layers || {};
+            var layerNames = getLayerNames();
+
+            append("0");
+            append("TABLE");
+            append("2");
+            append("LAYER");
+            append("70");
+            append(layerNames.length);
+
+            layerNames.forEach(function (layerName: string) {
+                var layerOptions = layerMap[layerName] || {};
+                var rgb = hexToRgb(layerOptions.color);
+                var aci = rgb ? rgbToAci(rgb) : 7;
+
+                append("0");
+                append("LAYER");
+                append("2");
+                append(layerName);
+                append("70");
+                append(0);
+
+                //a negative color number turns the layer off
+                append("62");
+                append(layerOptions.visible === false ? -aci : aci);
+
+                append("6");
+                append("CONTINUOUS");
+
+                if (rgb) {
+                    append("420");
+                    append((rgb[0] << 16) + (rgb[1] << 8) + rgb[2]);
+                }
+
+                if (layerOptions.lineWeight) {
+                    //in hundredths of a millimeter
+                    append("370");
+                    append(Math.round(layerOptions.lineWeight * 100));
+                }
+            });
+
+            append("0");
+            append("ENDTAB");
+        }
+
+        function appendPolyline(chain: IChain, layer: string): boolean {
+
+            //only lines and arcs can be described by vertices and bulges
+            var isPolyline = chain.links.length > 1 && chain.links.every(function (link: IChainLink) {
+                var type = link.walkedPath.pathContext.type;
+                return link.endPoints && (type === pathType.Line || type === pathType.Arc);
+            });
+
+            if (!isPolyline) return false;
+
+            var vertices: IDXFPolylineVertex[] = chain.links.map(function (link: IChainLink) {
+                var bulge = 0;
+
+                if (link.walkedPath.pathContext.type === pathType.Arc) {
+                    //bulge is the tangent of 1/4 of the included angle, negative when clockwise
+                    bulge = Math.tan(angle.ofArcSpan(<IPathArc>link.walkedPath.pathContext) * Math.PI / 180 / 4);
+                    if (link.reversed) {
+                        bulge = -bulge;
+                    }
+                }
+
+                return { point: link.endPoints[link.reversed ? 1 : 0], bulge: bulge };
+            });
+
+            if (!chain.endless) {
+                var last = chain.links[chain.links.length - 1];
+                vertices.push({ point: last.endPoints[last.reversed ? 0 : 1], bulge: 0 });
+            }
+
+            append("0");
+            append("LWPOLYLINE");
+            append("8");
+            append(layer || 0);
+            append("90");
+            append(vertices.length);
+            append("70");
+            append(chain.endless ? 1 : 0);
+
+            vertices.forEach(function (vertex: IDXFPolylineVertex) {
+                append("10");
+                append(vertex.point[0]);
+                append("20");
+                append(vertex.point[1]);
+
+                if (vertex.bulge) {
+                    append("42");
+                    append(vertex.bulge);
+                }
+            });
+
+            return true;
+        }
+
+        function appendModel(modelContext: IModel, offset: IPoint) {
+            var exporter = new Exporter(map);
+
+            if (!opts.polylines) {
+                exporter.exportItem('entities', modelContext, offset);
+                return;
+            }
+
+            function single(walkedPath: IWalkPath, layer: string) {
+                exporter.exportPath(walkedPath.pathId, walkedPath.pathContext, walkedPath.offset, layer);
+            }
+
+            model.findChains(
+                modelContext,
+                function (chains: IChain[], loose: IWalkPath[], layer: string) {
+
+                    chains.forEach(function (chain: IChain) {
+                        if (!appendPolyline(chain, layer)) {
+                            chain.links.forEach(function (link: IChainLink) {
+                                single(link.walkedPath, layer);
+                            });
+                        }
+                    });
+
+                    loose.forEach(function (walkedPath: IWalkPath) {
+                        single(walkedPath, layer);
+                    });
+                },
+                { byLayers: true }
+            );
+        }
+
+        //block name of each repeated child model, by route key
+        var blockNames: { [routeKey: string]: string } = {};
+
+        //one model of each block, by block name
+        var blockModels: IModelMap = {};
+
+        //each reference to a block
+        var blockInserts: IWalkModel[] = [];
+
+        function findBlocks() {
+
+            //a number for each distinct model content
+            var keyIds: { [key: string]: number } = {};
+            var keyCount = 0;
+            var counts: number[] = [];
+            var keyNames: string[] = [];
+
+            //content number of each child model, by route key
+            var routeKeyIds: { [routeKey: string]: number } = {};
+
+            //keys of the children of each model being walked
+            var childKeys: string[][] = [[]];
+
+            function getKeyId(modelContext: IModel, children: string[]): number {
+                //identical models differ only by their origin
+                var copy: IModel = {};
+                extendObject(copy, modelContext);
+                delete copy.origin;
+
+                //children are already numbered, so each model is serialized once
+                delete copy.models;
+                var key = JSON.stringify(copy) + children.join();
+
+                if (!(key in keyIds)) {
+                    keyIds[key] = keyCount++;
+                }
+
+                return keyIds[key];
+            }
+
+            model.walk(modelToExport, {
+                beforeChildWalk: function (walkedModel: IWalkModel) {
+                    childKeys.push([]);
+                    return true;
+                },
+                afterChildWalk: function (walkedModel: IWalkModel) {
+                    var keyId = getKeyId(walkedModel.childModel, childKeys.pop());
+                    routeKeyIds[walkedModel.routeKey] = keyId;
+                    counts[keyId] = (counts[keyId] || 0) + 1;
+
+                    childKeys[childKeys.length - 1].push(JSON.stringify([walkedModel.childId, walkedModel.childModel.origin, keyId]));
+                }
+            });
+
+            model.walk(modelToExport, {
+                beforeChildWalk: function (walkedModel: IWalkModel) {
+                    var childModel = walkedModel.childModel;
+                    var key = routeKeyIds[walkedModel.routeKey];
+
+                    if (counts[key] < 2 || !(childModel.paths || childModel.models)) return true;
+
+                    var name = keyNames[key];
+                    if (!name) {
+                        name = walkedModel.childId.replace(/[<>\/":;?*|,=`\s]/g, '_');
+                        while (name in blockModels) {
+                            name += '_';
+                        }
+                        keyNames[key] = name;
+                        blockModels[name] = childModel;
+                    }
+
+                    blockNames[walkedModel.routeKey] = name;
+                    blockInserts.push(walkedModel);
+
+                    //the contents are in the block
+                    return false;
+                }
+            });
+        }
+
+        function blocks() {
+            append("2");
+            append("BLOCKS");
+
+            for (var name in blockModels) {
+                var blockModel = blockModels[name];
+
+                append("0");
+                append("BLOCK");
+                append("8");
+                append(0);
+                append("2");
+                append(name);
+                append("70");
+                append(0);
+                append("10");
+                append(0);
+                append("20");
+                append(0);
+                append("3");
+                append(name);
+
+                //the block's base point is its own origin
+                appendModel({ paths: blockModel.paths, models: blockModel.models, layer: blockModel.layer }, point.zero());
+
+                append("0");
+                append("ENDBLK");
+                append("8");
+                append(0);
+            }
+        }
+
+        //a copy of the model without its block references, which shares the paths of the original
+        function withoutInserts(modelContext: IModel, routeKey: string): IModel {
+            if (!modelContext.models) return modelContext;
+
+            var copy: IModel = extendObject({}, modelContext);
+            copy.models = {};
+
+            for (var id in modelContext.models) {
+                var childRouteKey = routeKey + '.models' + JSON.stringify([id]);
+
+                if (!blockNames[childRouteKey]) {
+                    copy.models[id] = withoutInserts(modelContext.models[id], childRouteKey);
+                }
+            }
+
+            return copy;
+        }
+
         function entities() {
             append("2");
             append("ENTITIES");
 
-            var exporter = new Exporter(map);
-            exporter.exportItem('entities', itemToExport, point.zero());
+            if (!isModel(itemToExport)) {
+                new Exporter(map).exportItem('entities', itemToExport, point.zero());
+                return;
+            }
+
+            appendModel(withoutInserts(modelToExport, ''), point.zero());
+
+            blockInserts.forEach(function (walkedModel: IWalkModel) {
+                var insertionPoint = point.add(walkedModel.offset, walkedModel.childModel.origin);
+
+                append("0");
+                append("INSERT");
+                append("8");
+                append(walkedModel.layer || 0);
+                append("2");
+                append(blockNames[walkedModel.routeKey]);
+                append("10");
+                append(insertionPoint[0]);
+                append("20");
+                append(insertionPoint[1]);
+            });
         }
 
         //fixup options
@@ -136,7 +526,27 @@ namespace MakerJs.exporter {
             section(header);
         }
 
-        section(entities);
+        function body() {
+            if (modelToExport && opts.blocks) {
+                findBlocks();
+            }
+
+            if (modelToExport && (modelToExport.layers || opts.layerTable)) {
+                section(tables);
+            }
+
+            if (Object.keys(blockModels).length) {
+                section(blocks);
+            }
+
+            section(entities);
+        }
+
+        if (modelToExport) {
+            useBezierSeeds(modelToExport, body);
+        } else {
+            body();
+        }
 
         append("0");
         append("EOF");
@@ -145,9 +555,66 @@ namespace MakerJs.exporter {
     }
 
     /**
+     * Parse a hexadecimal color string, e.g. "#f00" or "#ff0000", into red, green and blue values.
      * @private
      */
-    var dxfUnit: { [unitType: string]: number } = {};
+    function hexToRgb(color: string): number[] {
+        var match = color && /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+        if (!match) return null;
+
+        var hex = match[1];
+        if (hex.length === 3) {
+            hex = hex.replace(/(.)/g, '$1$1');
+        }
+
+        return [0, 2, 4].map(function (i: number) { return parseInt(hex.substr(i, 2), 16); });
+    }
+
+    /**
+     * Red, green and blue values of the standard AutoCAD Color Index colors 1 through 7. Color 7 is black or white depending on the background.
+     * @private
+     */
+    var aciColors: number[][] = [
+        [255, 0, 0],
+        [255, 255, 0],
+        [0, 255, 0],
+        [0, 255, 255],
+        [0, 0, 255],
+        [255, 0, 255],
+        [255, 255, 255]
+    ];
+
+    /**
+     * Find the nearest standard AutoCAD Color Index color. Exact colors are written separately as true colors.
+     * @private
+     */
+    function rgbToAci(rgb: number[]): number {
+        var aci = 7;
+        var least: number;
+
+        aciColors.forEach(function (aciColor: number[], i: number) {
+            var distance = 0;
+            for (var c = 0; c < 3; c++) {
+                distance += Math.pow(aciColor[c] - rgb[c], 2);
+            }
+            if (least === undefined || distance < least) {
+                least = distance;
+                aci = i + 1;
+            }
+        });
+
+        //grays, including black, show as the background's opposite
+        if (rgb[0] === rgb[1] && rgb[1] === rgb[2]) {
+            aci = 7;
+        }
+
+        return aci;
+    }
+
+    /**
+     * Map of MakerJs unit system to DXF $INSUNITS value.
+     */
+    export var dxfUnit: { [unitType: string]: number } = {};
 
     //DXF format documentation:
     //http://images.autodesk.com/adsk/files/acad_dxf0.pdf
@@ -161,10 +628,589 @@ namespace MakerJs.exporter {
     dxfUnit[unitType.Centimeter] = 5;
     dxfUnit[unitType.Meter] = 6;
 
+    /**
+     * @private
+     */
+    interface IDXFPolylineVertex {
+        point: IPoint;
+        bulge: number;
+    }
+
     /**
      * DXF rendering options.
      */
     export interface IDXFRenderOptions extends IExportOptions {
+
+        /**
+         * Flag to write a LAYER table of every layer in use, in addition to the layers in the model's layer registry.
+         */
+        layerTable?: boolean;
+
+        /**
+         * Flag to write each chain of lines and arcs as one LWPOLYLINE, with bulge values for arcs.
+         */
+        polylines?: boolean;
+
+        /**
+         * Flag to write repeated identical child models as one BLOCK definition, with an INSERT reference for each.
+         */
+        blocks?: boolean;
+    }
+
+}
+
+
+namespace MakerJs.importer {
+
+    /**
+     * @private
+     */
+    interface IDXFGroup {
+        code: number;
+        value: string;
+    }
+
+    /**
+     * @private
+     */
+    interface IDXFEntity {
+        type: string;
+        groups: IDXFGroup[];
+        vertices?: IDXFEntity[];
+    }
+
+    /**
+     * @private
+     */
+    interface IDXFVertex {
+        point: IPoint;
+        bulge: number;
+    }
+
+    /**
+     * @private
+     */
+    function getGroupValue(entity: IDXFEntity, code: number): string {
+        for (var i = 0; i < entity.groups.length; i++) {
+            if (entity.groups[i].code === code) {
+                return entity.groups[i].value;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * @private
+     */
+    function getGroupNumber(entity: IDXFEntity, code: number, defaultValue = 0): number {
+        var value = getGroupValue(entity, code);
+        if (value === null) return defaultValue;
+        return parseFloat(value);
     }
 
+    /**
+     * @private
+     */
+    function getGroupPoint(entity: IDXFEntity, xCode: number): IPoint {
+        return [getGroupNumber(entity, xCode), getGroupNumber(entity, xCode + 10)];
+    }
+
+    /**
+     * @private
+     */
+    function isMirroredExtrusion(entity: IDXFEntity): boolean {
+        return getGroupNumber(entity, 230, 1) < 0;
+    }
+
+    /**
+     * Convert a path from object coordinates to world coordinates.
+     * @private
+     */
+    function fromObjectCoords(pathContext: IPath, entity: IDXFEntity): IPath {
+        //an extrusion direction of 0,0,-1 flips the object coordinate system along the x axis
+        if (isMirroredExtrusion(entity)) {
+            return path.mirror(pathContext, true, false);
+        }
+        return pathContext;
+    }
+
+    /**
+     * @private
+     */
+    function parseGroups(dxfText: string): IDXFGroup[] {
+        var lines = dxfText.split(/\r\n|\r|\n/);
+        var groups: IDXFGroup[] = [];
+
+        for (var i = 0; i + 1 < lines.length; i += 2) {
+            var code = parseInt(lines[i], 10);
+            if (isNaN(code)) continue;
+            groups.push({ code: code, value: lines[i + 1].trim() });
+        }
+
+        return groups;
+    }
+
+    /**
+     * Get the entities of each section, keyed by section name. Polyline vertices are gathered into their polyline.
+     * @private
+     */
+    function parseSections(groups: IDXFGroup[]): { [name: string]: IDXFEntity[] } {
+        var sections: { [name: string]: IDXFEntity[] } = {};
+        var currSection: IDXFEntity[] = null;
+        var currEntity: IDXFEntity = null;
+        var currPolyline: IDXFEntity = null;
+
+        for (var i = 0; i < groups.length; i++) {
+            var group = groups[i];
+
+            if (group.code === 0) {
+
+                switch (group.value) {
+                    case 'SECTION':
+                        //section name is in the next group
+                        i++;
+                        currSection = sections[groups[i].value] = [];
+                        currEntity = null;
+                        currPolyline = null;
+                        continue;
+
+                    case 'ENDSEC':
+                    case 'EOF':
+                        currSection = null;
+                        currEntity = null;
+                        currPolyline = null;
+                        continue;
+
+                    case 'SEQEND':
+                        currEntity = null;
+                        currPolyline = null;
+                        continue;
+                }
+
+                if (!currSection) continue;
+
+                currEntity = { type: group.value, groups: [] };
+
+                if (currEntity.type === 'VERTEX' && currPolyline) {
+                    currPolyline.vertices.push(currEntity);
+                } else {
+                    currSection.push(currEntity);
+                    currPolyline = null;
+                }
+
+                if (currEntity.type === 'POLYLINE') {
+                    currEntity.vertices = [];
+                    currPolyline = currEntity;
+                }
+
+            } else if (group.code === 9 && currSection) {
+                //header variables are not entities, keep each in a pseudo entity
+                currEntity = { type: group.value, groups: [] };
+                currSection.push(currEntity);
+
+            } else if (currEntity) {
+                currEntity.groups.push(group);
+            }
+        }
+
+        return sections;
+    }
+
+    /**
+     * @private
+     */
+    function bulgeToPath(a: IPoint, b: IPoint, bulge: number): IPath {
+        if (!bulge) {
+            return new paths.Line(a, b);
+        }
+
+        //bulge is the tangent of 1/4 of the included angle, negative when clockwise
+        var includedAngle = 4 * Math.atan(Math.abs(bulge));
+        var radius = measure.pointDistance(a, b) / (2 * Math.sin(includedAngle / 2));
+
+        return new paths.Arc(a, b, radius, Math.abs(bulge) > 1, bulge < 0);
+    }
+
+    /**
+     * Convert the knots and control points of a clamped B-spline into bezier curve points, by inserting knots until each span is a bezier.
+     * @private
+     */
+    function splineToBezierPoints(degree: number, knots: number[], controls: IPoint[]): IPoint[][] {
+
+        var last = knots.length - 1;
+
+        //must be clamped at both ends
+        for (var i = 1; i <= degree; i++) {
+            if (knots[i] !== knots[0] || knots[last - i] !== knots[last]) return null;
+        }
+
+        function insertKnot(u: number) {
+            var k = degree;
+            while (k < knots.length - degree - 2 && knots[k + 1] <= u) k++;
+
+            var newControls: IPoint[] = [];
+
+            for (var i = 0; i <= controls.length; i++) {
+                if (i <= k - degree) {
+                    newControls.push(controls[i]);
+                } else if (i > k) {
+                    newControls.push(controls[i - 1]);
+                } else {
+                    var alpha = (u - knots[i]) / (knots[i + degree] - knots[i]);
+                    newControls.push([
+                        (1 - alpha) * controls[i - 1][0] + alpha * controls[i][0],
+                        (1 - alpha) * controls[i - 1][1] + alpha * controls[i][1]
+                    ]);
+                }
+            }
+
+            knots.splice(k + 1, 0, u);
+            controls = newControls;
+        }
+
+        var i = degree + 1;
+        while (i < knots.length - degree - 1) {
+            var multiplicity = 1;
+            while (knots[i + multiplicity] === knots[i]) multiplicity++;
+
+            for (var m = multiplicity; m < degree; m++) {
+                insertKnot(knots[i]);
+            }
+
+            i += degree;
+        }
+
+        var result: IPoint[][] = [];
+
+        for (var i = 0; i + degree < controls.length; i += degree) {
+            result.push(controls.slice(i, i + degree + 1));
+        }
+
+        return result;
+    }
+
+    /**
+     * DXF import options.
+     */
+    export interface IDXFImportOptions {
+
+        /**
+         * Optional accuracy of BezierCurves created from SPLINE entities.
+         */
+        bezierAccuracy?: number;
+    }
+
+    /**
+     * Create a model from the contents of an ASCII DXF file.
+     * 
+     * Supported entities are LINE, CIRCLE, ARC, LWPOLYLINE, POLYLINE, ELLIPSE, SPLINE and INSERT of a block.
+     * 
+     * @param dxfText String of DXF file contents.
+     * @param options Optional DXFImportOptions object.
+     * @returns Model of the entities.
+     */
+    export function fromDXF(dxfText: string, options: IDXFImportOptions = {}): IModel {
+
+        //DXF format documentation:
+        //http://images.autodesk.com/adsk/files/acad_dxf0.pdf
+
+        var result: IModel = {};
+        var sections = parseSections(parseGroups(dxfText));
+
+        //the model which entities are added to, which is a block model while a block is read
+        var target = result;
+
+        function setLayer(item: { layer?: string }, entity: IDXFEntity) {
+            var layer = getGroupValue(entity, 8);
+
+            //layer 0 is the default layer
+            if (layer && layer !== '0') {
+                item.layer = layer;
+            }
+        }
+
+        function addPath(id: string, p: IPath, entity: IDXFEntity) {
+            if (!target.paths) {
+                target.paths = {};
+            }
+
+            setLayer(p, entity);
+
+            target.paths[model.getSimilarPathId(target, id)] = p;
+        }
+
+        function addModel(id: string, m: IModel, entity: IDXFEntity) {
+            if (!target.models) {
+                target.models = {};
+            }
+
+            setLayer(m, entity);
+
+            target.models[model.getSimilarModelId(target, id)] = m;
+        }
+
+        function addEntities(entities: IDXFEntity[]) {
+            entities.forEach(function (entity: IDXFEntity) {
+                var fn = map[entity.type];
+                if (fn) {
+                    fn(entity);
+                }
+            });
+        }
+
+        //entities and base point of each block definition, by block name
+        var blockEntities: { [name: string]: IDXFEntity[] } = {};
+        var blockBasePoints: { [name: string]: IPoint } = {};
+
+        //blocks are made into models when they are first inserted
+        var blockModels: IModelMap = {};
+
+        var blocks = sections['BLOCKS'];
+        if (blocks) {
+            var blockName: string = null;
+
+            blocks.forEach(function (entity: IDXFEntity) {
+                switch (entity.type) {
+                    case 'BLOCK':
+                        blockName = getGroupValue(entity, 2);
+                        blockEntities[blockName] = [];
+                        blockBasePoints[blockName] = getGroupPoint(entity, 10);
+                        break;
+
+                    case 'ENDBLK':
+                        blockName = null;
+                        break;
+
+                    default:
+                        if (blockName !== null) {
+                            blockEntities[blockName].push(entity);
+                        }
+                        break;
+                }
+            });
+        }
+
+        function getBlockModel(name: string): IModel {
+            if (name in blockModels) return blockModels[name];
+            if (!blockEntities[name]) return null;
+
+            //a block which inserts itself is empty within itself
+            blockModels[name] = null;
+
+            var blockModel: IModel = {};
+            var parent = target;
+
+            target = blockModel;
+            addEntities(blockEntities[name]);
+            target = parent;
+
+            //the base point of the block is placed at the insertion point
+            model.originate(blockModel, blockBasePoints[name]);
+            blockModel.origin = point.zero();
+
+            blockModels[name] = blockModel;
+
+            return blockModel;
+        }
+
+        function addPolyline(id: string, vertices: IDXFVertex[], closed: boolean, entity: IDXFEntity) {
+            var polyline: IModel = { paths: {} };
+            var count = closed ? vertices.length : vertices.length - 1;
+
+            for (var i = 0; i < count; i++) {
+                var a = vertices[i];
+                var b = vertices[(i + 1) % vertices.length];
+
+                if (measure.isPointEqual(a.point, b.point)) continue;
+
+                polyline.paths['ShapeLine' + (i + 1)] = fromObjectCoords(bulgeToPath(a.point, b.point, a.bulge), entity);
+            }
+
+            addModel(id, polyline, entity);
+        }
+
+        var map: { [entityType: string]: (entity: IDXFEntity) => void } = {};
+
+        map['LINE'] = function (entity: IDXFEntity) {
+            addPath('line', new paths.Line(getGroupPoint(entity, 10), getGroupPoint(entity, 11)), entity);
+        };
+
+        map['CIRCLE'] = function (entity: IDXFEntity) {
+            addPath('circle', fromObjectCoords(new paths.Circle(getGroupPoint(entity, 10), getGroupNumber(entity, 40)), entity), entity);
+        };
+
+        map['ARC'] = function (entity: IDXFEntity) {
+            var arc = new paths.Arc(getGroupPoint(entity, 10), getGroupNumber(entity, 40), getGroupNumber(entity, 50), getGroupNumber(entity, 51));
+            addPath('arc', fromObjectCoords(arc, entity), entity);
+        };
+
+        map['LWPOLYLINE'] = function (entity: IDXFEntity) {
+            var vertices: IDXFVertex[] = [];
+            var vertex: IDXFVertex;
+
+            entity.groups.forEach(function (group: IDXFGroup) {
+                switch (group.code) {
+                    case 10:
+                        vertex = { point: [parseFloat(group.value), 0], bulge: 0 };
+                        vertices.push(vertex);
+                        break;
+
+                    case 20:
+                        if (vertex) vertex.point[1] = parseFloat(group.value);
+                        break;
+
+                    case 42:
+                        if (vertex) vertex.bulge = parseFloat(group.value);
+                        break;
+                }
+            });
+
+            addPolyline('lwpolyline', vertices, (getGroupNumber(entity, 70) & 1) === 1, entity);
+        };
+
+        map['POLYLINE'] = function (entity: IDXFEntity) {
+            var flags = getGroupNumber(entity, 70);
+
+            //polyface meshes and polygon meshes are not 2D
+            if (flags & (16 | 64)) return;
+
+            var vertices = entity.vertices.map(function (v: IDXFEntity) {
+                var vertex: IDXFVertex = { point: getGroupPoint(v, 10), bulge: getGroupNumber(v, 42) };
+                return vertex;
+            });
+
+            addPolyline('polyline', vertices, (flags & 1) === 1, entity);
+        };
+
+        map['ELLIPSE'] = function (entity: IDXFEntity) {
+            var center = getGroupPoint(entity, 10);
+            var majorAxis = getGroupPoint(entity, 11);
+            var radiusX = measure.pointDistance([0, 0], majorAxis);
+            var radiusY = radiusX * getGroupNumber(entity, 40, 1);
+            var startAngle = angle.toDegrees(getGroupNumber(entity, 41, 0));
+            var endAngle = angle.toDegrees(getGroupNumber(entity, 42, 2 * Math.PI));
+            var e: IPath;
+
+            if (round(endAngle - startAngle) % 360 === 0) {
+                e = new paths.Ellipse(radiusX, radiusY);
+            } else {
+                e = new paths.EllipticArc(point.zero(), radiusX, radiusY, startAngle, endAngle);
+            }
+
+            //an extrusion direction of 0,0,-1 sweeps the ellipse clockwise from its major axis
+            if (isMirroredExtrusion(entity)) {
+                e = path.mirror(e, false, true);
+            }
+
+            path.rotate(e, angle.ofPointInDegrees([0, 0], majorAxis), [0, 0]);
+            path.move(e, center);
+
+            addPath('ellipse', e, entity);
+        };
+
+        map['INSERT'] = function (entity: IDXFEntity) {
+            var blockModel = getBlockModel(getGroupValue(entity, 2));
+            if (!blockModel) return;
+
+            var scaleX = getGroupNumber(entity, 41, 1);
+            var scaleY = getGroupNumber(entity, 42, 1);
+            var insert: IModel;
+
+            //a uniform scale keeps circles and arcs, otherwise they become ellipses
+            if (scaleX === scaleY && scaleX > 0) {
+                insert = model.scale(cloneObject(blockModel), scaleX);
+            } else {
+                insert = model.distort(blockModel, scaleX, scaleY);
+            }
+
+            model.rotate(insert, getGroupNumber(entity, 50), point.zero());
+            model.move(insert, getGroupPoint(entity, 10));
+
+            //an extrusion direction of 0,0,-1 flips the object coordinate system along the x axis
+            if (isMirroredExtrusion(entity)) {
+                insert = model.distort(insert, -1, 1, true);
+            }
+
+            addModel(getGroupValue(entity, 2), insert, entity);
+        };
+
+        map['SPLINE'] = function (entity: IDXFEntity) {
+            var degree = getGroupNumber(entity, 71, 3);
+            var knots: number[] = [];
+            var controls: IPoint[] = [];
+            var fitPoints: IPoint[] = [];
+
+            entity.groups.forEach(function (group: IDXFGroup) {
+                var value = parseFloat(group.value);
+
+                switch (group.code) {
+                    case 40:
+                        knots.push(value);
+                        break;
+
+                    case 10:
+                        controls.push([value, 0]);
+                        break;
+
+                    case 20:
+                        controls[controls.length - 1][1] = value;
+                        break;
+
+                    case 11:
+                        fitPoints.push([value, 0]);
+                        break;
+
+                    case 21:
+                        fitPoints[fitPoints.length - 1][1] = value;
+                        break;
+                }
+            });
+
+            var beziers: IPoint[][] = null;
+
+            if (degree === 1) {
+                addModel('spline', new models.ConnectTheDots(false, controls), entity);
+                return;
+
+            } else if ((degree === 2 || degree === 3) && knots.length === controls.length + degree + 1) {
+                beziers = splineToBezierPoints(degree, knots, controls);
+            }
+
+            if (beziers) {
+                var spline: IModel = { models: {} };
+
+                beziers.forEach(function (points: IPoint[], i: number) {
+                    spline.models['Curve_' + (1 + i)] = new models.BezierCurve(points, options.bezierAccuracy);
+                });
+
+                addModel('spline', spline, entity);
+
+            } else if (fitPoints.length > 1) {
+                //not convertible to beziers, approximate with the fit points
+                addModel('spline', new models.ConnectTheDots(false, fitPoints), entity);
+            }
+        };
+
+        var header = sections['HEADER'];
+        if (header) {
+            header.forEach(function (variable: IDXFEntity) {
+                if (variable.type !== '$INSUNITS') return;
+
+                var dxfUnitValue = getGroupNumber(variable, 70);
+
+                for (var unit in exporter.dxfUnit) {
+                    if (unit && exporter.dxfUnit[unit] === dxfUnitValue) {
+                        result.units = unit;
+                    }
+                }
+            });
+        }
+
+        var entities = sections['ENTITIES'];
+        if (entities) {
+            addEntities(entities);
+        }
+
+        return result;
+    }
 }
@@ -39,6 +39,14 @@
         return pathAreEqualMap[pathType.Circle](arcA, arcB, withinPointDistance) && isAngleEqual(arcA.startAngle, arcB.startAngle) && isAngleEqual(arcA.endAngle, arcB.endAngle);
     };
 
+    pathAreEqualMap[pathType.Ellipse] = function (ellipseA: IPathEllipse, ellipseB: IPathEllipse, withinPointDistance): boolean {
+        return isPointEqual(ellipseA.origin, ellipseB.origin, withinPointDistance) && ellipseA.radiusX == ellipseB.radiusX && ellipseA.radiusY == ellipseB.radiusY && isAngleEqual(ellipseA.angleOfRotation || 0, ellipseB.angleOfRotation || 0);
+    };
+
+    pathAreEqualMap[pathType.EllipticArc] = function (ellipticArcA: IPathEllipticArc, ellipticArcB: IPathEllipticArc, withinPointDistance): boolean {
+        return pathAreEqualMap[pathType.Ellipse](ellipticArcA, ellipticArcB, withinPointDistance) && isAngleEqual(ellipticArcA.startAngle, ellipticArcB.startAngle) && isAngleEqual(ellipticArcA.endAngle, ellipticArcB.endAngle);
+    };
+
     /**
      * Find out if two paths are equal.
      * 
@@ -20,6 +20,22 @@ namespace MakerJs.exporter {
         }
     }
 
+    /**
+     * Get the metadata of a layer from a model's layer registry. Returns an empty object for an unknown layer.
+     * @private
+     */
+    export function getRegisteredLayer(modelToExport: IModel, layer: string): ILayerOptions {
+        return (modelToExport && modelToExport.layers && modelToExport.layers[layer]) || {};
+    }
+
+    /**
+     * Check if a layer is not hidden by a model's layer registry.
+     * @private
+     */
+    export function isLayerVisible(modelToExport: IModel, layer: string): boolean {
+        return getRegisteredLayer(modelToExport, layer).visible !== false;
+    }
+
     /**
      * Class to traverse an item 's models or paths and ultimately render each path.
      * @private
@@ -115,4 +131,145 @@ namespace MakerJs.exporter {
         }
 
     }
+
+    /**
+     * @private
+     */
+    function getBezierModelsWithPaths(modelToExport: IModel): IWalkModel[] {
+
+        var beziers: IWalkModel[] = [];
+
+        function checkIsBezierWithPaths(walkedModel: IWalkModel) {
+            var b = walkedModel.childModel;
+            if (b.type && b.type === models.BezierCurve.typeName && b.paths) {
+                beziers.push(walkedModel);
+            }
+        }
+
+        var options: IWalkOptions = {
+            beforeChildWalk: function (walkedModel: IWalkModel): boolean {
+                checkIsBezierWithPaths(walkedModel);
+                return true;
+            }
+        };
+
+        var rootModel: IWalkModel = {
+            childId: '',
+            childModel: modelToExport,
+            layer: '',
+            offset: modelToExport.origin,
+            parentModel: null,
+            route: [],
+            routeKey: ''
+        };
+
+        checkIsBezierWithPaths(rootModel);
+
+        model.walk(modelToExport, options);
+
+        return beziers;
+    }
+
+    /**
+     * Temporarily replace the arcs of each BezierCurve model with its bezier seeds, for output formats which can draw curves natively.
+     * 
+     * @private
+     * @param modelToExport The model to export.
+     * @param task Function to run while the seeds are in place.
+     */
+    export function useBezierSeeds(modelToExport: IModel, task: () => void) {
+
+        var beziers = getBezierModelsWithPaths(modelToExport);
+        var tempKey = 'tempPaths';
+
+        beziers.forEach(function (walkedModel: IWalkModel) {
+
+            var b = walkedModel.childModel as models.BezierCurve;
+
+            //use seeds as path, hide the arc paths from findChains()
+            var bezierSeeds = models.BezierCurve.getBezierSeeds(b);
+            if (bezierSeeds.length > 0) {
+                b[tempKey] = b.paths;
+
+                var newPaths: IPathMap = {};
+
+                bezierSeeds.forEach(function (seed, i) {
+                    newPaths['seed_' + i] = seed;
+                });
+
+                b.paths = newPaths;
+            }
+
+        });
+
+        try {
+            task();
+        } finally {
+            //revert, even if the task fails
+            beziers.forEach(function (walkedModel: IWalkModel) {
+                var b = walkedModel.childModel as models.BezierCurve;
+                if (tempKey in b) {
+                    b.paths = b[tempKey];
+                    delete b[tempKey];
+                }
+            });
+        }
+    }
+
+    /**
+     * Temporarily replace each bezier seed path with a BezierCurve model of arcs, for output formats which cannot draw curves natively.
+     * 
+     * @private
+     * @param modelToExport The model to export.
+     * @param task Function to run while the arcs are in place.
+     */
+    export function useBezierArcs(modelToExport: IModel, task: () => void) {
+
+        var seeds: IWalkPath[] = [];
+        var addedModelMaps: IModel[] = [];
+
+        model.walk(modelToExport, {
+            onPath: function (walkedPath: IWalkPath) {
+                if (walkedPath.pathContext.type === pathType.BezierSeed) {
+                    seeds.push(walkedPath);
+                }
+            }
+        });
+
+        var curveIds = seeds.map(function (walkedPath: IWalkPath) {
+            var parent = walkedPath.modelContext;
+            var seed = <IPathBezierSeed>walkedPath.pathContext;
+            var curve: IModel = new models.BezierCurve(seed);
+
+            if ('layer' in seed) {
+                curve.layer = seed.layer;
+            }
+
+            if (!parent.models) {
+                parent.models = {};
+                addedModelMaps.push(parent);
+            }
+
+            var id = model.getSimilarModelId(parent, walkedPath.pathId);
+            parent.models[id] = curve;
+            delete parent.paths[walkedPath.pathId];
+
+            return id;
+        });
+
+        try {
+            task();
+        } finally {
+            //revert, even if the task fails
+            seeds.forEach(function (walkedPath: IWalkPath, i: number) {
+                var parent = walkedPath.modelContext;
+                delete parent.models[curveIds[i]];
+                parent.paths[walkedPath.pathId] = walkedPath.pathContext;
+            });
+
+            addedModelMaps.forEach(function (parent: IModel) {
+                delete parent.models;
+            });
+        }
+    }
 }
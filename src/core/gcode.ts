@@ -0,0 +1,389 @@
+namespace MakerJs.exporter {
+
+    /**
+     * @private
+     */
+    interface IGCodeChainLinkMap {
+        [pathType: string]: (pathContext: IPath, offset: IPoint, reversed: boolean, endPoints: IPoint[]) => void;
+    }
+
+    /**
+     * Renders a model as G-code toolpaths for a CNC router or laser cutter.
+     *
+     * Connected paths are cut as continuous chains. Arcs and bezier curves are output as native G2 / G3 moves, ellipses as short G1 moves.
+     *
+     * @param modelToExport Model object to export.
+     * @param options Rendering options object.
+     * @returns String of G-code.
+     */
+    export function toGCode(modelToExport: IModel, options?: IGCodeRenderOptions): string {
+
+        var opts: IGCodeRenderOptions = {
+            accuracy: .001,
+            chordTolerance: .01,
+            feedRate: 500,
+            safeZ: 5,
+            toolOn: 'M3',
+            toolOff: 'M5'
+        };
+
+        extendObject(opts, options);
+
+        if (modelToExport.exporterOptions) {
+            extendObject(opts, modelToExport.exporterOptions['toGCode']);
+        }
+
+        //try to get the unit system from the model
+        if (!opts.units) {
+            opts.units = modelToExport.units;
+        }
+
+        //also pass back to options parameter
+        extendObject(options, opts);
+
+        var gcode: string[] = [];
+        var scale = 1;
+        var currentFeed: number = null;
+        var currentZ: number = null;
+        var currentToolOn: string = null;
+
+        function append(value: string) {
+            gcode.push(value);
+        }
+
+        function coord(axis: string, n: number) {
+            return axis + round(n * scale, opts.accuracy);
+        }
+
+        function move(command: string, p: IPoint, feed?: number, extra: string[] = []) {
+            var words = [command, coord('X', p[0]), coord('Y', p[1])].concat(extra);
+
+            if (feed && feed !== currentFeed) {
+                words.push('F' + feed);
+                currentFeed = feed;
+            }
+
+            append(words.join(' '));
+        }
+
+        function moveZ(command: string, z: number, feed?: number) {
+            if (z === currentZ) return;
+            currentZ = z;
+
+            var words = [command, 'Z' + round(z, opts.accuracy)];
+
+            if (feed && feed !== currentFeed) {
+                words.push('F' + feed);
+                currentFeed = feed;
+            }
+
+            append(words.join(' '));
+        }
+
+        function arcTo(clockwise: boolean, start: IPoint, end: IPoint, center: IPoint, feed: number) {
+            var ij = point.subtract(center, start);
+            move(clockwise ? 'G2' : 'G3', end, feed, [coord('I', ij[0]), coord('J', ij[1])]);
+        }
+
+        function toolOn(layerOptions: IGCodeRenderOptions) {
+            if (layerOptions.toolOn && currentToolOn !== layerOptions.toolOn) {
+                append(layerOptions.toolOn);
+                currentToolOn = layerOptions.toolOn;
+            }
+        }
+
+        function toolOff(layerOptions: IGCodeRenderOptions) {
+            if (currentToolOn !== null) {
+                if (layerOptions.toolOff) {
+                    append(layerOptions.toolOff);
+                }
+                currentToolOn = null;
+            }
+        }
+
+        function getLayerOptions(layer: string): IGCodeRenderOptions {
+            var layerOptions: IGCodeRenderOptions = {};
+            extendObject(layerOptions, opts);
+
+            //the model's layer registry, in model units
+            var registeredLayer = getRegisteredLayer(modelToExport, layer);
+
+            if (registeredLayer.depth) {
+                layerOptions.cutDepth = registeredLayer.depth * scale;
+            }
+
+            if (registeredLayer.speed) {
+                layerOptions.feedRate = registeredLayer.speed;
+            }
+
+            if (registeredLayer.power !== undefined && layerOptions.toolOn) {
+                layerOptions.toolOn += ' S' + registeredLayer.power;
+            }
+
+            if (opts.layerOptions) {
+                extendObject(layerOptions, opts.layerOptions[layer]);
+            }
+
+            return layerOptions;
+        }
+
+        function getPassDepths(layerOptions: IGCodeRenderOptions): number[] {
+            if (!layerOptions.cutDepth) {
+                //no z axis moves
+                return [null];
+            }
+
+            var depths: number[] = [];
+            var stepDown = layerOptions.stepDown || layerOptions.cutDepth;
+            var depth = 0;
+
+            do {
+                depth = Math.min(depth + stepDown, layerOptions.cutDepth);
+                depths.push(-depth);
+            } while (depth < layerOptions.cutDepth);
+
+            return depths;
+        }
+
+        var linkMap: IGCodeChainLinkMap = {};
+        var cutFeed: number;
+
+        linkMap[pathType.Line] = function (line: IPathLine, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            move('G1', endPoints[reversed ? 0 : 1], cutFeed);
+        };
+
+        linkMap[pathType.Arc] = function (arc: IPathArc, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            var center = point.add(arc.origin, offset);
+
+            if (!endPoints) {
+                //a full revolution, cut as two halves
+                linkMap[pathType.Circle](arc, offset, reversed, endPoints);
+                return;
+            }
+
+            arcTo(reversed, endPoints[reversed ? 1 : 0], endPoints[reversed ? 0 : 1], center, cutFeed);
+        };
+
+        linkMap[pathType.Circle] = function (circle: IPathCircle, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            var center = point.add(circle.origin, offset);
+            var startAngle = (<IPathArc>circle).startAngle || 0;
+            var start = point.add(point.fromAngleOnCircle(startAngle, circle), offset);
+            var half = point.add(point.fromAngleOnCircle(startAngle + 180, circle), offset);
+
+            arcTo(false, start, half, center, cutFeed);
+            arcTo(false, half, start, center, cutFeed);
+        };
+
+        linkMap[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            var span = angle.ofArcSpan(ellipticArc);
+            var startAngle = reversed ? ellipticArc.startAngle + span : ellipticArc.startAngle;
+            var sweep = reversed ? -span : span;
+
+            //ellipses are faceted, using the larger radius to estimate the tolerance
+            var radius = Math.max(ellipticArc.radiusX, ellipticArc.radiusY);
+            var maxSweep = 180;
+            if (opts.chordTolerance < radius) {
+                maxSweep = angle.toDegrees(2 * Math.acos(1 - opts.chordTolerance / radius));
+            }
+            var facets = Math.ceil(span / maxSweep);
+
+            for (var i = 1; i <= facets; i++) {
+                move('G1', point.add(point.fromAngleOnEllipse(startAngle + sweep * i / facets, ellipticArc), offset), cutFeed);
+            }
+        };
+
+        linkMap[pathType.Ellipse] = function (ellipse: IPathEllipse, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            var ellipticArc = new paths.EllipticArc(ellipse.origin, ellipse.radiusX, ellipse.radiusY, 0, 360, ellipse.angleOfRotation);
+            linkMap[pathType.EllipticArc](ellipticArc, offset, false, null);
+        };
+
+        function chainStart(chain: IChain): IPoint {
+            var first = chain.links[0];
+
+            if (first.endPoints) {
+                return first.endPoints[first.reversed ? 1 : 0];
+            }
+
+            var pathContext = first.walkedPath.pathContext;
+
+            if (pathContext.type === pathType.Ellipse || pathContext.type === pathType.EllipticArc) {
+                return point.add(point.fromAngleOnEllipse((<IPathEllipticArc>pathContext).startAngle || 0, <IPathEllipse>pathContext), first.walkedPath.offset);
+            }
+
+            //circle
+            var circle = <IPathArc>pathContext;
+            return point.add(point.fromAngleOnCircle(circle.startAngle || 0, circle), first.walkedPath.offset);
+        }
+
+        function cutChain(chain: IChain, layerOptions: IGCodeRenderOptions) {
+            var depths = getPassDepths(layerOptions);
+            var useZ = depths[0] !== null;
+            var toolOnEachChain = layerOptions.toolOnEachChain || !useZ;
+            var start = chainStart(chain);
+
+            cutFeed = layerOptions.feedRate;
+
+            depths.forEach(function (depth: number, i: number) {
+
+                //endless chains can step down in place, open chains must return to their start
+                if (i === 0 || !chain.endless) {
+                    if (useZ) {
+                        moveZ('G0', layerOptions.safeZ);
+                    }
+                    move('G0', start);
+                }
+
+                if (!toolOnEachChain) {
+                    toolOn(layerOptions);
+                }
+
+                if (useZ) {
+                    moveZ('G1', depth, layerOptions.plungeRate || layerOptions.feedRate);
+                }
+
+                if (toolOnEachChain) {
+                    toolOn(layerOptions);
+                }
+
+                chain.links.forEach(function (link: IChainLink) {
+                    var fn = linkMap[link.walkedPath.pathContext.type];
+                    if (fn) {
+                        fn(link.walkedPath.pathContext, link.walkedPath.offset, link.reversed, link.endPoints);
+                    }
+                });
+
+                if (toolOnEachChain) {
+                    toolOff(layerOptions);
+                }
+            });
+
+            if (useZ) {
+                moveZ('G0', layerOptions.safeZ);
+            }
+        }
+
+        //begin gcode output
+
+        append('G90');
+        append('G17');
+
+        if (opts.units) {
+            var gcodeUnit = gcodeUnits[opts.units];
+            if (gcodeUnit) {
+                scale = units.conversionScale(opts.units, gcodeUnit.unitType);
+                append(gcodeUnit.code);
+            }
+        }
+
+        var lastLayerOptions: IGCodeRenderOptions = opts;
+
+        //curves are approximated with arcs
+        useBezierArcs(modelToExport, function () {
+            model.findChains(
+                modelToExport,
+                function (chains: IChain[], loose: IWalkPath[], layer: string) {
+
+                    if (!isLayerVisible(modelToExport, layer)) return;
+
+                    var layerOptions = getLayerOptions(layer);
+
+                    chains.forEach(function (chain: IChain) {
+                        cutChain(chain, layerOptions);
+                    });
+
+                    loose.forEach(function (walkedPath: IWalkPath) {
+                        var chain: IChain = {
+                            links: [{
+                                walkedPath: walkedPath,
+                                reversed: false,
+                                endPoints: point.fromPathEnds(walkedPath.pathContext, walkedPath.offset)
+                            }]
+                        };
+                        cutChain(chain, layerOptions);
+                    });
+
+                    lastLayerOptions = layerOptions;
+                },
+                { byLayers: true }
+            );
+        });
+
+        toolOff(lastLayerOptions);
+
+        append('M2');
+
+        return gcode.join('\n');
+    }
+
+    /**
+     * @private
+     */
+    var gcodeUnits: { [unitType: string]: { code: string; unitType: string; } } = {};
+
+    gcodeUnits[unitType.Inch] = { code: 'G20', unitType: unitType.Inch };
+    gcodeUnits[unitType.Foot] = { code: 'G20', unitType: unitType.Inch };
+    gcodeUnits[unitType.Millimeter] = { code: 'G21', unitType: unitType.Millimeter };
+    gcodeUnits[unitType.Centimeter] = { code: 'G21', unitType: unitType.Millimeter };
+    gcodeUnits[unitType.Meter] = { code: 'G21', unitType: unitType.Millimeter };
+
+    /**
+     * G-code rendering options. Distances and rates are in the output unit system, inches or millimeters.
+     */
+    export interface IGCodeRenderOptions extends IExportOptions {
+
+        /**
+         * Optional exemplar of number of decimal places.
+         */
+        accuracy?: number;
+
+        /**
+         * Optional maximum distance between an ellipse and the straight moves which approximate it, in the model's unit system. Default is .01.
+         */
+        chordTolerance?: number;
+
+        /**
+         * Feed rate of cutting moves, per minute.
+         */
+        feedRate?: number;
+
+        /**
+         * Optional feed rate of plunging moves, per minute. Default is the feed rate.
+         */
+        plungeRate?: number;
+
+        /**
+         * Height above the material for rapid moves.
+         */
+        safeZ?: number;
+
+        /**
+         * Optional total depth of cut. When omitted, no Z axis moves are output, e.g. for a laser cutter.
+         */
+        cutDepth?: number;
+
+        /**
+         * Optional maximum depth of each pass. Multiple passes are made until the cut depth is reached.
+         */
+        stepDown?: number;
+
+        /**
+         * Command to turn on the spindle or laser, e.g. "M3 S12000".
+         */
+        toolOn?: string;
+
+        /**
+         * Command to turn off the spindle or laser.
+         */
+        toolOff?: string;
+
+        /**
+         * Flag to turn the tool on and off around each chain. This is always true when there is no cut depth.
+         */
+        toolOnEachChain?: boolean;
+
+        /**
+         * Optional options applied to paths on specific layers. These take precedence over the depth, speed and power in the model's layer registry.
+         */
+        layerOptions?: { [layer: string]: IGCodeRenderOptions };
+    }
+}
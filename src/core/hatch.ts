@@ -0,0 +1,148 @@
+namespace MakerJs.model {
+
+    /**
+     * Horizontal hatch lines clipped to the inside of a model.
+     * @private
+     */
+    function hatchRows(boundary: IModel, spacing: number, serpentine: boolean): IPathLine[] {
+        var extents = measure.modelExtents(boundary);
+        var result: IPathLine[] = [];
+
+        if (!extents) return result;
+
+        var atlas = new measure.Atlas(boundary);
+        atlas.measureModels();
+
+        //rows are centered, so that none lie along the top and bottom edges
+        var height = extents.high[1] - extents.low[1];
+        var rows = Math.max(1, Math.ceil(height / spacing));
+        var firstRow = extents.low[1] + (height - (rows - 1) * spacing) / 2;
+
+        //an irregular direction to the far point, so that it is unlikely to pass through a vertex
+        var farPoint: IPoint = [extents.high[0] + 7.654321, extents.high[1] + 1.234567];
+
+        for (var row = 0; row < rows; row++) {
+            var y = firstRow + row * spacing;
+            var line = new paths.Line([extents.low[0] - 1, y], [extents.high[0] + 1, y]);
+            var xs: number[] = [];
+
+            walk(boundary, {
+                onPath: function (walkedPath: IWalkPath) {
+                    var intersection = path.intersection(line, walkedPath.pathContext, { path2Offset: walkedPath.offset });
+                    if (intersection) {
+                        intersection.intersectionPoints.forEach(function (p: IPoint) {
+                            xs.push(p[0]);
+                        });
+                    }
+                }
+            });
+
+            xs.sort(function (a: number, b: number) { return a - b; });
+
+            var rowLines: IPathLine[] = [];
+
+            //pieces between crossings alternate inside and outside, except where the row touches a vertex, so each is tested
+            for (var i = 1; i < xs.length; i++) {
+                if (round(xs[i] - xs[i - 1]) === 0) continue;
+
+                var piece = new paths.Line([xs[i - 1], y], [xs[i], y]);
+
+                if (isPathInsideModel(piece, boundary, [0, 0], farPoint, atlas)) {
+                    rowLines.push(piece);
+                }
+            }
+
+            //join pieces which were split at a vertex
+            for (var i = rowLines.length - 1; i > 0; i--) {
+                if (measure.isPointEqual(rowLines[i - 1].end, rowLines[i].origin)) {
+                    rowLines[i - 1].end = rowLines[i].end;
+                    rowLines.splice(i, 1);
+                }
+            }
+
+            //alternate the direction of travel of each row
+            if (serpentine && row % 2 === 1) {
+                rowLines.reverse();
+                rowLines.forEach(function (piece: IPathLine) {
+                    var origin = piece.origin;
+                    piece.origin = piece.end;
+                    piece.end = origin;
+                });
+            }
+
+            result.push.apply(result, rowLines);
+        }
+
+        return result;
+    }
+
+    /**
+     * Fill the loops of a model with parallel lines, such as for laser engraving. Loops within loops are holes.
+     *
+     * @param modelContext The model to hatch.
+     * @param spacing Distance between hatch lines.
+     * @param angleInDegrees Optional angle of the hatch lines. Default is 0.
+     * @param options Optional options object.
+     * @returns A new model of hatch lines.
+     */
+    export function hatch(modelContext: IModel, spacing: number, angleInDegrees = 0, options?: IHatchOptions): IModel {
+
+        var opts: IHatchOptions = {
+            layer: 'hatch',
+            pointMatchingDistance: .005
+        };
+
+        extendObject(opts, options);
+
+        var result: IModel = { paths: {} };
+
+        if (opts.layer) {
+            result.layer = opts.layer;
+        }
+
+        if (!(spacing > 0)) return result;
+
+        //only closed loops bound the regions, finding them originates the model so use a copy
+        var loops = findLoops(cloneObject(modelContext), opts);
+
+        var angles = [angleInDegrees];
+        if (opts.crossHatch) {
+            angles.push(angleInDegrees + 90);
+        }
+
+        var count = 0;
+
+        angles.forEach(function (a: number) {
+
+            //hatch horizontally, then rotate into place
+            var boundary = rotate(cloneObject(loops), -a, [0, 0]);
+
+            hatchRows(boundary, spacing, opts.serpentine).forEach(function (line: IPathLine) {
+                result.paths['hatch_' + count++] = path.rotate(line, a, [0, 0]);
+            });
+        });
+
+        return result;
+    }
+
+    /**
+     * Options to pass to model.hatch.
+     */
+    export interface IHatchOptions extends IPointMatchOptions {
+
+        /**
+         * Optional layer of the resulting model. Default is "hatch".
+         */
+        layer?: string;
+
+        /**
+         * Flag to add a second set of hatch lines, perpendicular to the first.
+         */
+        crossHatch?: boolean;
+
+        /**
+         * Flag to alternate the direction of each hatch line, so that a tool may travel back and forth.
+         */
+        serpentine?: boolean;
+    }
+}
@@ -0,0 +1,248 @@
+namespace MakerJs.exporter {
+
+    /**
+     * @private
+     */
+    interface IHPGLChainLinkMap {
+        [pathType: string]: (pathContext: IPath, offset: IPoint, reversed: boolean, endPoints: IPoint[]) => void;
+    }
+
+    /**
+     * Renders a model in HPGL for a pen plotter or vinyl cutter.
+     *
+     * Connected paths are drawn with a single pen down sequence.
+     *
+     * @param modelToExport Model object to export.
+     * @param options Rendering options object.
+     * @returns String of HPGL instructions.
+     */
+    export function toHPGL(modelToExport: IModel, options?: IHPGLRenderOptions): string {
+
+        var opts: IHPGLRenderOptions = {
+            arcs: true,
+            chordTolerance: .1,
+            pen: 1
+        };
+
+        extendObject(opts, options);
+
+        if (modelToExport.exporterOptions) {
+            extendObject(opts, modelToExport.exporterOptions['toHPGL']);
+        }
+
+        //try to get the unit system from the model
+        if (!opts.units) {
+            opts.units = modelToExport.units;
+        }
+
+        //also pass back to options parameter
+        extendObject(options, opts);
+
+        //from model units to plotter units
+        var scale = 1;
+        if (opts.units) {
+            scale = units.conversionScale(opts.units, unitType.Inch) * 1016;
+        }
+
+        var hpgl: string[] = [];
+        var currentPen: number = null;
+        var penDown: IPoint[] = [];
+        var isPenDown = false;
+
+        function append(value: string) {
+            hpgl.push(value + ';');
+        }
+
+        function coords(p: IPoint) {
+            return [Math.round(p[0] * scale), Math.round(p[1] * scale)];
+        }
+
+        function flush() {
+            if (penDown.length) {
+                append('PD' + penDown.map(function (p: IPoint) { return coords(p).join(','); }).join(','));
+                penDown = [];
+                isPenDown = true;
+            }
+        }
+
+        function selectPen(layer: string) {
+            var pen = opts.pens && layer in opts.pens ? opts.pens[layer] : getRegisteredLayer(modelToExport, layer).pen || opts.pen;
+            if (pen !== currentPen) {
+                append('SP' + pen);
+                currentPen = pen;
+            }
+        }
+
+        function penUp(p: IPoint) {
+            flush();
+            append('PU' + coords(p).join(','));
+            isPenDown = false;
+        }
+
+        function facetCount(radius: number, sweep: number) {
+            var maxSweep = 180;
+            if (opts.chordTolerance < radius) {
+                maxSweep = angle.toDegrees(2 * Math.acos(1 - opts.chordTolerance / radius));
+            }
+            return Math.ceil(Math.abs(sweep) / maxSweep);
+        }
+
+        function arcTo(center: IPoint, radius: number, startAngle: number, sweep: number) {
+            if (opts.arcs) {
+                flush();
+                if (!isPenDown) {
+                    append('PD');
+                    isPenDown = true;
+                }
+                append('AA' + coords(center).join(',') + ',' + round(sweep, .001));
+                return;
+            }
+
+            //facet the arc so that no chord strays more than the tolerance from the arc
+            var facets = facetCount(radius, sweep);
+
+            for (var i = 1; i <= facets; i++) {
+                penDown.push(point.add(center, point.fromPolar(angle.toRadians(startAngle + sweep * i / facets), radius)));
+            }
+        }
+
+        var linkMap: IHPGLChainLinkMap = {};
+
+        linkMap[pathType.Line] = function (line: IPathLine, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            penDown.push(endPoints[reversed ? 0 : 1]);
+        };
+
+        linkMap[pathType.Arc] = function (arc: IPathArc, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            var center = point.add(arc.origin, offset);
+            var span = angle.ofArcSpan(arc);
+
+            if (reversed) {
+                arcTo(center, arc.radius, arc.endAngle, -span);
+            } else {
+                arcTo(center, arc.radius, arc.startAngle, span);
+            }
+        };
+
+        linkMap[pathType.Circle] = function (circle: IPathCircle, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            arcTo(point.add(circle.origin, offset), circle.radius, 0, 360);
+        };
+
+        linkMap[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            var span = angle.ofArcSpan(ellipticArc);
+            var startAngle = reversed ? ellipticArc.startAngle + span : ellipticArc.startAngle;
+            var sweep = reversed ? -span : span;
+
+            //ellipses are always faceted, using the larger radius to estimate the tolerance
+            var facets = facetCount(Math.max(ellipticArc.radiusX, ellipticArc.radiusY), sweep);
+
+            for (var i = 1; i <= facets; i++) {
+                penDown.push(point.add(point.fromAngleOnEllipse(startAngle + sweep * i / facets, ellipticArc), offset));
+            }
+        };
+
+        linkMap[pathType.Ellipse] = function (ellipse: IPathEllipse, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            var ellipticArc = new paths.EllipticArc(ellipse.origin, ellipse.radiusX, ellipse.radiusY, 0, 360, ellipse.angleOfRotation);
+            linkMap[pathType.EllipticArc](ellipticArc, offset, false, null);
+        };
+
+        function drawPath(pathContext: IPath, offset: IPoint, reversed: boolean, endPoints: IPoint[]) {
+            var fn = linkMap[pathContext.type];
+            if (fn) {
+                fn(pathContext, offset, reversed, endPoints);
+            }
+        }
+
+        var map: IPathOriginFunctionMap = {};
+
+        map[pathType.Line] = function (id: string, line: IPathLine, origin: IPoint, layer: string) {
+            var endPoints = point.fromPathEnds(line, origin);
+            penUp(endPoints[0]);
+            drawPath(line, origin, false, endPoints);
+            flush();
+        };
+
+        map[pathType.Arc] = map[pathType.Line];
+
+        map[pathType.EllipticArc] = map[pathType.Line];
+
+        map[pathType.Ellipse] = function (id: string, ellipse: IPathEllipse, origin: IPoint, layer: string) {
+            penUp(point.add(point.fromAngleOnEllipse(0, ellipse), origin));
+            drawPath(ellipse, origin, false, null);
+            flush();
+        };
+
+        map[pathType.Circle] = function (id: string, circle: IPathCircle, origin: IPoint, layer: string) {
+            penUp(point.add(point.fromAngleOnCircle(0, circle), origin));
+            drawPath(circle, origin, false, null);
+            flush();
+        };
+
+        var exporter = new Exporter(map);
+
+        append('IN');
+
+        //curves are approximated with arcs
+        useBezierArcs(modelToExport, function () {
+            model.findChains(
+                modelToExport,
+                function (chains: IChain[], loose: IWalkPath[], layer: string) {
+
+                    if (!isLayerVisible(modelToExport, layer)) return;
+
+                    selectPen(layer);
+
+                    chains.forEach(function (chain: IChain) {
+                        var first = chain.links[0];
+
+                        if (first.endPoints) {
+                            penUp(first.endPoints[first.reversed ? 1 : 0]);
+                            chain.links.forEach(function (link: IChainLink) {
+                                drawPath(link.walkedPath.pathContext, link.walkedPath.offset, link.reversed, link.endPoints);
+                            });
+                            flush();
+                        } else {
+                            //a single circle
+                            exporter.exportPath(first.walkedPath.pathId, first.walkedPath.pathContext, first.walkedPath.offset, layer);
+                        }
+                    });
+
+                    loose.forEach(function (walkedPath: IWalkPath) {
+                        exporter.exportPath(walkedPath.pathId, walkedPath.pathContext, walkedPath.offset, layer);
+                    });
+                },
+                { byLayers: true }
+            );
+        });
+
+        append('PU');
+        append('SP0');
+
+        return hpgl.join('\n');
+    }
+
+    /**
+     * HPGL rendering options.
+     */
+    export interface IHPGLRenderOptions extends IExportOptions {
+
+        /**
+         * Flag to draw arcs with the AA instruction. When false, arcs are drawn as straight facets.
+         */
+        arcs?: boolean;
+
+        /**
+         * Maximum distance between a facet and its arc, in the model's unit system. Used when arcs is false.
+         */
+        chordTolerance?: number;
+
+        /**
+         * Pen number used for paths which are not in the pens table.
+         */
+        pen?: number;
+
+        /**
+         * Optional table of pen numbers; property name is the layer name, property value is the pen number. This takes precedence over the pen in the model's layer registry.
+         */
+        pens?: { [layer: string]: number };
+    }
+}
@@ -15,6 +15,9 @@ namespace MakerJs.path {
     map[pathType.Arc] = {};
     map[pathType.Circle] = {};
     map[pathType.Line] = {};
+    map[pathType.Ellipse] = {};
+    map[pathType.EllipticArc] = {};
+    map[pathType.BezierSeed] = {};
 
     map[pathType.Arc][pathType.Arc] = function (arc1: IPathArc, arc2: IPathArc, options: IPathIntersectionOptions, swapOffsets: boolean) {
         var result: IPathIntersection = null;
@@ -202,6 +205,164 @@ namespace MakerJs.path {
         return result;
     };
 
+    [pathType.Ellipse, pathType.EllipticArc].forEach(function (ellipseType: string) {
+
+        map[ellipseType][pathType.Line] = function (ellipse: IPathEllipse, line: IPathLine, options: IPathIntersectionOptions, swapOffsets: boolean) {
+            var result: IPathIntersection = null;
+
+            moveTemp([ellipse, line], options, swapOffsets, function () {
+
+                //in the ellipse's own space, it is a unit circle and the line is still a line
+                var unitLine = new paths.Line(toUnitCircle(line.origin, ellipse), toUnitCircle(line.end, ellipse));
+                var angles = lineToCircle(unitLine, new paths.Circle(1), options);
+                if (angles) {
+                    var ellipseAngles = getAnglesWithinEllipse(angles, ellipse, options);
+                    if (ellipseAngles) {
+                        result = {
+                            intersectionPoints: pointsFromAnglesOnEllipse(ellipseAngles, ellipse),
+                            path1Angles: ellipseAngles
+                        };
+                    }
+                }
+            });
+
+            return result;
+        };
+
+        map[pathType.Line][ellipseType] = function (line: IPathLine, ellipse: IPathEllipse, options: IPathIntersectionOptions) {
+            var result = map[ellipseType][pathType.Line](ellipse, line, options, true);
+            if (result) {
+                return swapAngles(result);
+            }
+            return null;
+        };
+
+        [pathType.Circle, pathType.Arc, pathType.Ellipse, pathType.EllipticArc].forEach(function (curveType: string) {
+
+            map[ellipseType][curveType] = function (ellipse: IPathEllipse, curve: IPath, options: IPathIntersectionOptions, swapOffsets: boolean) {
+                var result: IPathIntersection = null;
+
+                moveTemp([ellipse, curve], options, swapOffsets, function () {
+
+                    var curveAngles = ellipseToCurve(ellipse, curve, options);
+                    if (curveAngles) {
+                        var ellipseAngles: number[] = [];
+                        var intersectionPoints: IPoint[] = [];
+                        var pathAngles: number[] = [];
+
+                        curveAngles.forEach(function (curveAngle: number) {
+                            var p = pointOnCurve(curveAngle, curve);
+                            var u = toUnitCircle(p, ellipse);
+                            var ellipseAngle = round(angle.noRevolutions(angle.toDegrees(Math.atan2(u[1], u[0]))));
+
+                            if (getAnglesWithinEllipse([ellipseAngle], ellipse, options)) {
+                                ellipseAngles.push(ellipseAngle);
+                                intersectionPoints.push(p);
+                                pathAngles.push(curveAngle);
+                            }
+                        });
+
+                        if (intersectionPoints.length) {
+                            result = {
+                                intersectionPoints: intersectionPoints,
+                                path1Angles: ellipseAngles,
+                                path2Angles: pathAngles
+                            };
+                        }
+                    }
+                });
+
+                return result;
+            };
+
+            if (curveType === pathType.Ellipse || curveType === pathType.EllipticArc) return;
+
+            map[curveType][ellipseType] = function (curve: IPath, ellipse: IPathEllipse, options: IPathIntersectionOptions) {
+                var result = map[ellipseType][curveType](ellipse, curve, options, true);
+                if (result) {
+                    return swapAngles(result);
+                }
+                return null;
+            };
+        });
+    });
+
+    map[pathType.BezierSeed][pathType.Line] = function (seed: IPathBezierSeed, line: IPathLine, options: IPathIntersectionOptions, swapOffsets: boolean) {
+        var result: IPathIntersection = null;
+
+        moveTemp([seed, line], options, swapOffsets, function () {
+            var ts = models.BezierCurve.computeLineIntersections(seed, line);
+            if (ts.length) {
+                result = {
+                    intersectionPoints: pointsFromBezierPositions(ts, seed)
+                };
+            }
+        });
+
+        return result;
+    };
+
+    map[pathType.Line][pathType.BezierSeed] = function (line: IPathLine, seed: IPathBezierSeed, options: IPathIntersectionOptions) {
+        return map[pathType.BezierSeed][pathType.Line](seed, line, options, true);
+    };
+
+    map[pathType.BezierSeed][pathType.BezierSeed] = function (seed1: IPathBezierSeed, seed2: IPathBezierSeed, options: IPathIntersectionOptions, swapOffsets: boolean) {
+        var result: IPathIntersection = null;
+
+        moveTemp([seed1, seed2], options, swapOffsets, function () {
+            var pairs = models.BezierCurve.computeSeedIntersections(seed1, seed2);
+            if (pairs.length) {
+                var ts = pairs.map(function (pair: number[]) { return pair[0]; });
+                result = {
+                    intersectionPoints: pointsFromBezierPositions(ts, seed1)
+                };
+            }
+        });
+
+        return result;
+    };
+
+    [pathType.Circle, pathType.Arc, pathType.Ellipse, pathType.EllipticArc].forEach(function (curveType: string) {
+
+        map[pathType.BezierSeed][curveType] = function (seed: IPathBezierSeed, curve: IPath, options: IPathIntersectionOptions, swapOffsets: boolean) {
+            var result: IPathIntersection = null;
+
+            moveTemp([seed, curve], options, swapOffsets, function () {
+                var intersectionPoints: IPoint[] = [];
+                var curveAngles: number[] = [];
+
+                bezierToCurve(seed, curve).forEach(function (t: number) {
+                    var p = models.BezierCurve.computePoint(seed, t);
+                    var curveAngle = angleOnCurve(p, curve);
+
+                    var withinCurve = curve.type === pathType.Arc ? getAnglesWithinArc([curveAngle], <IPathArc>curve, options) : getAnglesWithinEllipse([curveAngle], <IPathEllipse>curve, options);
+
+                    if (withinCurve) {
+                        intersectionPoints.push(p);
+                        curveAngles.push(curveAngle);
+                    }
+                });
+
+                if (intersectionPoints.length) {
+                    result = {
+                        intersectionPoints: intersectionPoints,
+                        path2Angles: curveAngles
+                    };
+                }
+            });
+
+            return result;
+        };
+
+        map[curveType][pathType.BezierSeed] = function (curve: IPath, seed: IPathBezierSeed, options: IPathIntersectionOptions) {
+            var result = map[pathType.BezierSeed][curveType](seed, curve, options, true);
+            if (result) {
+                return swapAngles(result);
+            }
+            return null;
+        };
+    });
+
     /**
      * @private
      */
@@ -224,6 +385,8 @@ namespace MakerJs.path {
 
         if (temp) {
             result.path2Angles = temp;
+        } else {
+            delete result.path2Angles;
         }
 
         return result;
@@ -271,7 +434,7 @@ namespace MakerJs.path {
     /**
      * @private
      */
-    function getAnglesWithinArc(angles: number[], arc: IPathArc, options: IPathIntersectionOptions): number[] {
+    function getAnglesWithinArc(angles: number[], arc: IPathArc | IPathEllipticArc, options: IPathIntersectionOptions): number[] {
 
         if (!angles) return null;
 
@@ -288,6 +451,321 @@ namespace MakerJs.path {
         return anglesWithinArc;
     }
 
+    /**
+     * @private
+     */
+    function pointsFromAnglesOnEllipse(anglesInDegrees: number[], ellipse: IPathEllipse): IPoint[] {
+        return anglesInDegrees.map(function (a: number) { return point.fromAngleOnEllipse(a, ellipse); });
+    }
+
+    /**
+     * @private
+     */
+    function getAnglesWithinEllipse(angles: number[], ellipse: IPathEllipse, options: IPathIntersectionOptions): number[] {
+        if (ellipse.type === pathType.EllipticArc) {
+            return getAnglesWithinArc(angles, <IPathEllipticArc>ellipse, options);
+        }
+        return angles;
+    }
+
+    /**
+     * Map a point into the space where an ellipse is a unit circle at [0, 0].
+     * 
+     * @private
+     */
+    function toUnitCircle(p: IPoint, ellipse: IPathEllipse): IPoint {
+        var unrotated = point.rotate(point.subtract(p, ellipse.origin), -(ellipse.angleOfRotation || 0), point.zero());
+        return [unrotated[0] / ellipse.radiusX, unrotated[1] / ellipse.radiusY];
+    }
+
+    /**
+     * @private
+     */
+    function isEllipseType(curve: IPath): boolean {
+        return curve.type === pathType.Ellipse || curve.type === pathType.EllipticArc;
+    }
+
+    /**
+     * @private
+     */
+    function pointOnCurve(angleInDegrees: number, curve: IPath): IPoint {
+        if (isEllipseType(curve)) {
+            return point.fromAngleOnEllipse(angleInDegrees, <IPathEllipse>curve);
+        }
+        return point.fromAngleOnCircle(angleInDegrees, <IPathCircle>curve);
+    }
+
+    /**
+     * Find the angles on a circle, arc, ellipse or elliptic arc where it meets an ellipse.
+     * 
+     * In the space where the ellipse is a unit circle, the curve is still an ellipse, and its squared distance from the center
+     * is a quartic polynomial in the tangent of half the curve angle. Its roots are where the curves cross, and its roots which
+     * are also its minima or maxima are where the curves touch.
+     * 
+     * @private
+     */
+    function ellipseToCurve(ellipse: IPathEllipse, curve: IPath, options: IPathIntersectionOptions): number[] {
+
+        //the curve is its center, plus the cosine and sine of its angle times 2 vectors
+        var center = toUnitCircle(curve.origin, ellipse);
+        var u = toUnitCircle(point.add(point.subtract(pointOnCurve(0, curve), curve.origin), ellipse.origin), ellipse);
+        var v = toUnitCircle(point.add(point.subtract(pointOnCurve(90, curve), curve.origin), ellipse.origin), ellipse);
+
+        function dot(a: IPoint, b: IPoint) {
+            return a[0] * b[0] + a[1] * b[1];
+        }
+
+        var k = dot(center, center) - 1;
+        var cu = dot(center, u);
+        var cv = dot(center, v);
+        var uu = dot(u, u);
+        var vv = dot(v, v);
+        var uv = dot(u, v);
+
+        //distance from the ellipse, in the ellipse's unit circle space
+        function f(curveAngle: number) {
+            var radians = angle.toRadians(curveAngle);
+            var c = Math.cos(radians);
+            var s = Math.sin(radians);
+            return k + 2 * cu * c + 2 * cv * s + uu * c * c + vv * s * s + 2 * uv * c * s;
+        }
+
+        //f times (1 + t^2)^2, where t is the tangent of half the angle, in ascending powers of t
+        var quartic = [
+            k + 2 * cu + uu,
+            4 * cv + 4 * uv,
+            2 * k - 2 * uu + 4 * vv,
+            4 * cv - 4 * uv,
+            k - 2 * cu + uu
+        ];
+
+        if (quartic.every(function (c: number) { return round(c) === 0; })) {
+            options.out_AreOverlapped = true;
+            return null;
+        }
+
+        var angles: number[] = [];
+
+        function addAngle(a: number) {
+            a = angle.noRevolutions(round(a));
+
+            //do not add the same point twice, such as a touch which is found as 2 crossings
+            for (var j = 0; j < angles.length; j++) {
+                if (round(angle.noRevolutions(angles[j] - a + 180) - 180, .0001) === 0) return;
+            }
+
+            angles.push(a);
+        }
+
+        function angleOfT(t: number) {
+            return angle.toDegrees(2 * Math.atan(t));
+        }
+
+        //rate of change of f, per radian
+        function slope(radians: number) {
+            var c = Math.cos(radians);
+            var s = Math.sin(radians);
+            return -2 * cu * s + 2 * cv * c + 2 * (vv - uu) * s * c + 2 * uv * (c * c - s * s);
+        }
+
+        //Newton's method on the angle, since a root far along t is coarse
+        function refine(curveAngle: number) {
+            var radians = curveAngle * Math.PI / 180;
+
+            for (var i = 0; i < 4; i++) {
+                var fSlope = slope(radians);
+                if (!fSlope) break;
+
+                var next = radians - f(angle.toDegrees(radians)) / fSlope;
+                if (Math.abs(f(angle.toDegrees(next))) >= Math.abs(f(angle.toDegrees(radians)))) break;
+
+                radians = next;
+            }
+
+            return angle.toDegrees(radians);
+        }
+
+        //180 degrees is at an infinite t
+        if (round(f(180)) === 0) {
+            addAngle(180);
+        }
+
+        polynomialRoots(quartic).forEach(function (t: number) {
+            addAngle(refine(angleOfT(t)));
+        });
+
+        polynomialRoots(polynomialDerivative(quartic)).forEach(function (t: number) {
+            var a = angleOfT(t);
+            if (round(f(a)) === 0) {
+                addAngle(a);
+            }
+        });
+
+        if (options.excludeTangents) {
+
+            //where the curves touch, the curve runs along the unit circle, so its distance from the center does not change
+            angles = angles.filter(function (a: number) {
+                var radians = a * Math.PI / 180;
+                var direction = point.add(point.scale(u, -Math.sin(radians)), point.scale(v, Math.cos(radians)));
+                return round(slope(radians) / (2 * measure.pointDistance(point.zero(), direction)), .0001) !== 0;
+            });
+        }
+
+        if (curve.type === pathType.Arc || curve.type === pathType.EllipticArc) {
+            return getAnglesWithinArc(angles, <IPathArc | IPathEllipticArc>curve, options);
+        }
+
+        if (angles.length > 0) {
+            return angles;
+        }
+
+        return null;
+    }
+
+    /**
+     * Coefficients of the derivative of a polynomial, in ascending powers.
+     * 
+     * @private
+     */
+    function polynomialDerivative(coefficients: number[]): number[] {
+        return coefficients.slice(1).map(function (c: number, i: number) { return c * (i + 1); });
+    }
+
+    /**
+     * Find the real roots of a polynomial where it changes sign, given its coefficients in ascending powers.
+     * Between the roots of its derivative, a polynomial either rises or falls, so each of those spans has at most one root.
+     * 
+     * @private
+     */
+    function polynomialRoots(coefficients: number[]): number[] {
+        var largest = Math.max.apply(null, coefficients.map(Math.abs));
+        var degree = coefficients.length - 1;
+
+        //leading coefficients which are negligible lower the degree
+        while (degree > 0 && Math.abs(coefficients[degree]) <= largest * 1e-12) {
+            degree--;
+        }
+
+        if (degree < 1) return [];
+
+        var c = coefficients.slice(0, degree + 1);
+
+        if (degree === 1) {
+            return [-c[0] / c[1]];
+        }
+
+        function p(x: number) {
+            var value = 0;
+            for (var i = degree; i >= 0; i--) {
+                value = value * x + c[i];
+            }
+            return value;
+        }
+
+        //all roots are within this distance of 0
+        var bound = 1;
+        for (var i = 0; i < degree; i++) {
+            bound = Math.max(bound, 1 + Math.abs(c[i] / c[degree]));
+        }
+
+        var ends = [-bound].concat(polynomialRoots(polynomialDerivative(c)).sort(function (a: number, b: number) { return a - b; }), [bound]);
+        var roots: number[] = [];
+
+        for (var i = 0; i < ends.length - 1; i++) {
+            var v0 = p(ends[i]);
+            var v1 = p(ends[i + 1]);
+
+            if (v0 === 0) {
+                roots.push(ends[i]);
+            } else if (v0 * v1 < 0) {
+                roots.push(bisect(p, ends[i], ends[i + 1], v0));
+            }
+        }
+
+        return roots;
+    }
+
+    /**
+     * Narrow down where a function changes sign between 2 values.
+     * 
+     * @private
+     */
+    function bisect(f: (x: number) => number, x0: number, x1: number, v0: number): number {
+        for (var n = 0; n < 50; n++) {
+            var mid = (x0 + x1) / 2;
+            var vm = f(mid);
+            if (v0 * vm <= 0) {
+                x1 = mid;
+            } else {
+                x0 = mid;
+                v0 = vm;
+            }
+        }
+        return (x0 + x1) / 2;
+    }
+
+    /**
+     * @private
+     */
+    function pointsFromBezierPositions(ts: number[], seed: IPathBezierSeed): IPoint[] {
+        return ts.map(function (t: number) { return models.BezierCurve.computePoint(seed, t); });
+    }
+
+    /**
+     * Distance of a point from a circle, arc, ellipse or elliptic arc; negative when inside.
+     * 
+     * @private
+     */
+    function distanceFromCurve(p: IPoint, curve: IPath): number {
+        if (isEllipseType(curve)) {
+            var u = toUnitCircle(p, <IPathEllipse>curve);
+            return u[0] * u[0] + u[1] * u[1] - 1;
+        }
+        return measure.pointDistance(p, curve.origin) - (<IPathCircle>curve).radius;
+    }
+
+    /**
+     * @private
+     */
+    function angleOnCurve(p: IPoint, curve: IPath): number {
+        if (isEllipseType(curve)) {
+            var u = toUnitCircle(p, <IPathEllipse>curve);
+            return round(angle.noRevolutions(angle.toDegrees(Math.atan2(u[1], u[0]))));
+        }
+        return round(angle.noRevolutions(angle.ofPointInDegrees(curve.origin, p)));
+    }
+
+    /**
+     * Find the positions along a bezier seed where it crosses a circle, arc, ellipse or elliptic arc, by sampling and bisection.
+     * 
+     * @private
+     */
+    function bezierToCurve(seed: IPathBezierSeed, curve: IPath): number[] {
+
+        function f(t: number) {
+            return distanceFromCurve(models.BezierCurve.computePoint(seed, t), curve);
+        }
+
+        var samples = 100;
+        var values: number[] = [];
+
+        for (var i = 0; i <= samples; i++) {
+            values.push(f(i / samples));
+        }
+
+        var ts: number[] = [];
+
+        for (var i = 0; i <= samples; i++) {
+            if (round(values[i]) === 0) {
+                ts.push(i / samples);
+            } else if (i < samples && round(values[i + 1]) !== 0 && values[i] * values[i + 1] < 0) {
+                ts.push(bisect(f, i / samples, (i + 1) / samples, values[i]));
+            }
+        }
+
+        return ts;
+    }
+
     /**
      * @private
      */
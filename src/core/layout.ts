@@ -0,0 +1,134 @@
+namespace MakerJs.layout {
+
+    /**
+     * @private
+     */
+    function cloneToLine(itemToClone: IModel, count: number, margin: number, axis: number): IModel {
+        var result: IModel = { models: {} };
+        var extents = measure.modelExtents(itemToClone);
+        var size = extents ? extents.high[axis] - extents.low[axis] : 0;
+
+        for (var i = 0; i < count; i++) {
+            var delta: IPoint = [0, 0];
+            delta[axis] = i * (size + margin);
+
+            result.models[i] = model.moveRelative(cloneObject(itemToClone), delta);
+        }
+
+        return result;
+    }
+
+    /**
+     * Layout clones in a row, from left to right, spaced by the width of the item.
+     *
+     * @param itemToClone The model to clone.
+     * @param count Number of clones in the row.
+     * @param margin Optional distance between each clone.
+     * @returns A new model with clones in a row.
+     */
+    export function cloneToRow(itemToClone: IModel, count: number, margin = 0): IModel {
+        return cloneToLine(itemToClone, count, margin, 0);
+    }
+
+    /**
+     * Layout clones in a column, from bottom to top, spaced by the height of the item.
+     *
+     * @param itemToClone The model to clone.
+     * @param count Number of clones in the column.
+     * @param margin Optional distance between each clone.
+     * @returns A new model with clones in a column.
+     */
+    export function cloneToColumn(itemToClone: IModel, count: number, margin = 0): IModel {
+        return cloneToLine(itemToClone, count, margin, 1);
+    }
+
+    /**
+     * Layout clones in a grid of rows and columns.
+     *
+     * @param itemToClone The model to clone.
+     * @param xCount Number of columns in the grid.
+     * @param yCount Number of rows in the grid.
+     * @param margin Optional distance between each clone, as a number or as a point of distances in the x and y directions.
+     * @returns A new model with a child model for each row of clones.
+     */
+    export function cloneToGrid(itemToClone: IModel, xCount: number, yCount: number, margin: number | IPoint = 0): IModel {
+        var margins: IPoint = Array.isArray(margin) ? <IPoint>margin : [<number>margin, <number>margin];
+        return cloneToColumn(cloneToRow(itemToClone, xCount, margins[0]), yCount, margins[1]);
+    }
+
+    /**
+     * Layout clones in a circle, each rotated around a point.
+     *
+     * @param itemToClone The model to clone.
+     * @param count Number of clones.
+     * @param angleInDegrees Angle of rotation between each clone.
+     * @param rotationOrigin Optional center point of rotation. Default is [0, 0].
+     * @returns A new model with clones in a circle.
+     */
+    export function cloneToRadial(itemToClone: IModel, count: number, angleInDegrees: number, rotationOrigin: IPoint = [0, 0]): IModel {
+        var result: IModel = { models: {} };
+
+        for (var i = 0; i < count; i++) {
+            result.models[i] = model.rotate(cloneObject(itemToClone), i * angleInDegrees, rotationOrigin);
+        }
+
+        return result;
+    }
+
+    /**
+     * Layout clones at equal distances along a chain. The [0, 0] point of the item is placed on the chain.
+     *
+     * @param itemToClone The model to clone.
+     * @param chainToFollow The chain to place clones along.
+     * @param count Number of clones. An open chain has a clone at each end, an endless chain has a clone at its start.
+     * @param options Optional options object.
+     * @returns A new model with clones along the chain.
+     */
+    export function cloneAlongChain(itemToClone: IModel, chainToFollow: IChain, count: number, options?: ICloneAlongChainOptions): IModel {
+
+        var opts: ICloneAlongChainOptions = {
+            rotate: false
+        };
+
+        extendObject(opts, options);
+
+        var result: IModel = { models: {} };
+        if (!(count > 0)) return result;
+
+        var chainLength = chain.length(chainToFollow);
+        var intervals = (chainToFollow.endless || count === 1) ? count : count - 1;
+
+        for (var i = 0; i < count; i++) {
+            var distance = Math.min(i * chainLength / intervals, chainLength);
+            var p = chain.pointAtDistance(chainToFollow, distance);
+
+            //no clone where the chain cannot be measured
+            if (!p) continue;
+
+            var clone = cloneObject(itemToClone);
+
+            //follow the direction of the chain
+            if (opts.rotate) {
+                var tangent = chain.tangentAtDistance(chainToFollow, distance);
+                if (tangent !== null) {
+                    model.rotate(clone, tangent, [0, 0]);
+                }
+            }
+
+            result.models[i] = model.moveRelative(clone, p);
+        }
+
+        return result;
+    }
+
+    /**
+     * Options to pass to layout.cloneAlongChain.
+     */
+    export interface ICloneAlongChainOptions {
+
+        /**
+         * Flag to rotate each clone to the direction of the chain, where the x axis of the item follows the chain.
+         */
+        rotate?: boolean;
+    }
+}
@@ -0,0 +1,204 @@
+namespace MakerJs.chain {
+
+    /**
+     * Point and unit vector of the direction of travel, at the start or end of a chain link.
+     * @private
+     */
+    interface ILinkEnd {
+        point: IPoint;
+        tangent: IPoint;
+    }
+
+    /**
+     * @private
+     */
+    function linkEnd(link: IChainLink, atStart: boolean): ILinkEnd {
+        var pathContext = path.moveRelative(path.clone(link.walkedPath.pathContext), link.walkedPath.offset);
+        var endPoints = point.fromPathEnds(pathContext);
+        var tangent = pathTangent(pathContext, link.reversed, atStart);
+
+        if (!tangent) return null;
+
+        //a closed path, such as a circle, starts and ends at its 0 distance
+        var p = endPoints ? endPoints[(atStart === !link.reversed) ? 0 : 1] : path.pointAtDistance(pathContext, 0);
+
+        return { point: p, tangent: tangent };
+    }
+
+    /**
+     * Create a lead which meets a chain at a point, perpendicular or tangent to it.
+     * @private
+     */
+    function lead(p: IPoint, tangent: IPoint, normal: IPoint, isLeadIn: boolean, opts: IChainLeadOptions): IPath {
+        var length = opts.length;
+
+        if (opts.type === leadType.Arc) {
+
+            //a quarter circle, tangent to the chain
+            var center = point.add(p, point.scale(normal, length));
+            var away = point.add(center, point.scale(tangent, isLeadIn ? -length : length));
+            var pointAngle = angle.ofPointInDegrees(center, p);
+            var awayAngle = angle.ofPointInDegrees(center, away);
+
+            //arcs are counter-clockwise, which is the direction of travel when the center is on the left
+            var counterClockwise = (tangent[0] * normal[1] - tangent[1] * normal[0]) > 0;
+
+            if (counterClockwise === isLeadIn) {
+                return new paths.Arc(center, length, awayAngle, pointAngle);
+            }
+            return new paths.Arc(center, length, pointAngle, awayAngle);
+        }
+
+        var far = point.add(p, point.scale(normal, length));
+        return isLeadIn ? new paths.Line(far, p) : new paths.Line(p, far);
+    }
+
+    /**
+     * Rotate the order of the links of an endless chain, so that it starts at the link end nearest to a preferred point, such as a corner.
+     *
+     * @param chainToCycle The endless chain to change.
+     * @param preferredPoint The point to start near.
+     * @returns The chain, for cascading.
+     */
+    export function startAt(chainToCycle: IChain, preferredPoint: IPoint): IChain {
+        if (!chainToCycle.endless || chainToCycle.links.length < 2) return chainToCycle;
+
+        var closest = 0;
+        var closestDistance: number;
+
+        chainToCycle.links.forEach(function (link: IChainLink, i: number) {
+            var distance = measure.pointDistance(preferredPoint, link.endPoints[link.reversed ? 1 : 0]);
+            if (i === 0 || distance < closestDistance) {
+                closest = i;
+                closestDistance = distance;
+            }
+        });
+
+        var moved = chainToCycle.links.splice(0, closest);
+        chainToCycle.links.push.apply(chainToCycle.links, moved);
+
+        return chainToCycle;
+    }
+
+    /**
+     * Create lead-in and lead-out moves of an endless chain, on the side of the scrap material, so that the pierce is away from the edge of the part.
+     *
+     * Where the chain starts at a corner which turns towards the scrap, such as a corner of a rectangular hole, the leads are lines along the bisector of the corner.
+     *
+     * Example:
+     * ```
+     * var leads = makerjs.chain.addLeads(chain, false, { type: makerjs.chain.leadType.Arc, length: 3 });
+     * ```
+     *
+     * @param chainToLead The endless chain to cut.
+     * @param isHole Flag that the chain is a hole, so the scrap is inside of it. For loops found with model.findLoops, holes are at odd depths.
+     * @param options Optional options object.
+     * @returns A new model with "leadIn" and "leadOut" paths which meet the start of the chain, or null if the chain is not endless.
+     */
+    export function addLeads(chainToLead: IChain, isHole: boolean, options?: IChainLeadOptions): IModel {
+
+        var opts: IChainLeadOptions = {
+            type: leadType.Line,
+            length: 1,
+            leadOut: true
+        };
+
+        extendObject(opts, options);
+
+        if (!chainToLead.endless) return null;
+
+        if (opts.startPoint) {
+            startAt(chainToLead, opts.startPoint);
+        }
+
+        var first = linkEnd(chainToLead.links[0], true);
+        var last = linkEnd(chainToLead.links[chainToLead.links.length - 1], false);
+
+        if (!first || !last) return null;
+
+        //the inside of a counter-clockwise chain is on its left
+        var scrapIsLeft = !measure.isChainClockwise(chainToLead) === isHole;
+
+        function scrapNormal(tangent: IPoint): IPoint {
+            return scrapIsLeft ? [-tangent[1], tangent[0]] : [tangent[1], -tangent[0]];
+        }
+
+        var result: IModel = { paths: {} };
+
+        //positive when the chain turns left at its start
+        var turn = last.tangent[0] * first.tangent[1] - last.tangent[1] * first.tangent[0];
+
+        if (round(turn) !== 0 && (turn > 0) === scrapIsLeft) {
+
+            //a corner which turns towards the scrap, where a lead from either side would cut into or run along the other side
+            var bisector = point.add(scrapNormal(last.tangent), scrapNormal(first.tangent));
+            var far = point.add(first.point, point.scale(bisector, opts.length / measure.pointDistance(point.zero(), bisector)));
+
+            result.paths['leadIn'] = new paths.Line(far, first.point);
+
+            if (opts.leadOut) {
+                result.paths['leadOut'] = new paths.Line(last.point, far);
+            }
+
+        } else {
+            result.paths['leadIn'] = lead(first.point, first.tangent, scrapNormal(first.tangent), true, opts);
+
+            if (opts.leadOut) {
+                result.paths['leadOut'] = lead(last.point, last.tangent, scrapNormal(last.tangent), false, opts);
+            }
+        }
+
+        if (opts.layer) {
+            result.layer = opts.layer;
+        }
+
+        return result;
+    }
+
+    /**
+     * Kinds of lead-in and lead-out moves.
+     */
+    export var leadType = {
+
+        /**
+         * A line perpendicular to the chain.
+         */
+        Line: 'line',
+
+        /**
+         * A quarter circle tangent to the chain.
+         */
+        Arc: 'arc'
+    };
+
+    /**
+     * Options to pass to chain.addLeads.
+     */
+    export interface IChainLeadOptions {
+
+        /**
+         * Optional kind of lead, one of the leadType values. Default is line.
+         */
+        type?: string;
+
+        /**
+         * Optional length of a line lead, or radius of an arc lead. Default is 1.
+         */
+        length?: number;
+
+        /**
+         * Flag to add a lead-out. Default is true.
+         */
+        leadOut?: boolean;
+
+        /**
+         * Optional point to start the chain near, see chain.startAt.
+         */
+        startPoint?: IPoint;
+
+        /**
+         * Optional layer of the resulting model.
+         */
+        layer?: string;
+    }
+}
@@ -113,9 +113,11 @@
      * @param modelContext The model to search for loops.
      * @param options Optional options object.
      * @returns A new model with child models ranked according to their containment within other found loops. The paths of models will be IPathDirectionalWithPrimeContext.
+     * When options.byLayers is true, the new model has a child model for each layer, which contains the ranked child models of that layer.
      */
     export function findLoops(modelContext: IModel, options?: IFindLoopsOptions): IModel {
-        var loops: ILoopModel[] = [];
+        var loopsByLayer: { [layer: string]: ILoopModel[] } = {};
+        var connectionsByLayer: { [layer: string]: Collector<IPoint, ILinkedPath> } = {};
         var result: IModel = { models: {} };
 
         var opts: IFindLoopsOptions = {
@@ -123,21 +125,21 @@
         };
         extendObject(opts, options);
 
-        function spin(callback: (loop: ILoopModel) => void) {
+        function spin(loops: ILoopModel[], callback: (loop: ILoopModel) => void) {
             for (var i = 0; i < loops.length; i++) {
                 callback(loops[i]);
             }
         }
 
-        function getModelByDepth(depth: number): IModel {
+        function getModelByDepth(parentModel: IModel, depth: number): IModel {
             var id = depth.toString();
 
-            if (!(id in result.models)) {
+            if (!(id in parentModel.models)) {
                 var newModel: IModel = { models: {} };
-                result.models[id] = newModel;
+                parentModel.models[id] = newModel;
             }
 
-            return result.models[id];
+            return parentModel.models[id];
         }
 
         function comparePoint(pointA: IPoint, pointB: IPoint): boolean {
@@ -145,7 +147,16 @@
             return distance <= opts.pointMatchingDistance;
         }
 
-        var connections = new Collector<IPoint, ILinkedPath>(comparePoint);
+        function getLayer(walkedPath: IWalkPath): string {
+            var layer = opts.byLayers ? walkedPath.layer : '';
+
+            if (!(layer in loopsByLayer)) {
+                loopsByLayer[layer] = [];
+                connectionsByLayer[layer] = new Collector<IPoint, ILinkedPath>(comparePoint);
+            }
+
+            return layer;
+        }
 
         //todo: remove dead ends first
         originate(modelContext);
@@ -158,15 +169,18 @@
                 safePath.pathId = walkedPath.pathId;
                 safePath.modelContext = modelContext;
 
+                var layer = getLayer(walkedPath);
+
                 //circles are loops by nature
-                if (safePath.type == pathType.Circle || (safePath.type == pathType.Arc && angle.ofArcSpan(walkedPath.pathContext as IPathArc) == 360)) {
+                if (safePath.type == pathType.Circle || (safePath.type == pathType.Arc && angle.ofArcSpan(walkedPath.pathContext as IPathArc) == 360) ||
+                    safePath.type == pathType.Ellipse || (safePath.type == pathType.EllipticArc && angle.ofArcSpan(walkedPath.pathContext as IPathEllipticArc) == 360)) {
                     var loopModel: ILoopModel = {
                         paths: {},
                         insideCount: 0
                     };
                     loopModel.paths[walkedPath.pathId] = safePath;
 
-                    collectLoop(loopModel, loops, opts.removeFromOriginal);
+                    collectLoop(loopModel, loopsByLayer[layer], opts.removeFromOriginal);
 
                 } else {
 
@@ -188,7 +202,7 @@
                             reversed: i != 0
                         };
 
-                        connections.addItemToCollection(safePath.endPoints[i], linkedPath);
+                        connectionsByLayer[layer].addItemToCollection(safePath.endPoints[i], linkedPath);
                     }
                 }
             }
@@ -196,36 +210,46 @@
 
         walk(modelContext, walkOptions);
 
-        //follow paths to find loops
-        follow(connections, loops, opts.removeFromOriginal);
+        for (var layer in loopsByLayer) {
+            var loops = loopsByLayer[layer];
 
-        //now we have all loops, we need to see which are inside of each other
-        spin(function (firstLoop: ILoopModel) {
+            //follow paths to find loops
+            follow(connectionsByLayer[layer], loops, opts.removeFromOriginal);
 
-            var firstPath = getFirstPathFromModel(firstLoop);
+            //now we have all loops, we need to see which are inside of each other
+            spin(loops, function (firstLoop: ILoopModel) {
 
-            if (!firstPath) return;
+                var firstPath = getFirstPathFromModel(firstLoop);
 
-            spin(function (secondLoop: ILoopModel) {
+                if (!firstPath) return;
 
-                if (firstLoop === secondLoop) return;
+                spin(loops, function (secondLoop: ILoopModel) {
 
-                if (isPathInsideModel(firstPath, secondLoop)) {
-                    firstLoop.insideCount++;
-                }
+                    if (firstLoop === secondLoop) return;
 
+                    if (isPathInsideModel(firstPath, secondLoop)) {
+                        firstLoop.insideCount++;
+                    }
+
+                });
             });
-        });
 
-        //now we can group similar loops by their nested level
-        spin(function (loop: ILoopModel) {
-            var depthModel = getModelByDepth(loop.insideCount);
-            var id = countChildModels(depthModel).toString();
+            var layerModel = result;
+
+            if (opts.byLayers) {
+                layerModel = result.models[layer] = { models: {} };
+            }
+
+            //now we can group similar loops by their nested level
+            spin(loops, function (loop: ILoopModel) {
+                var depthModel = getModelByDepth(layerModel, loop.insideCount);
+                var id = countChildModels(depthModel).toString();
 
-            delete loop.insideCount;
+                delete loop.insideCount;
 
-            depthModel.models[id] = loop;
-        });
+                depthModel.models[id] = loop;
+            });
+        }
 
         return result;
     }
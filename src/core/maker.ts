@@ -321,6 +321,75 @@ namespace MakerJs {
         return isPath(item) && item.type == pathType.Arc && hasNamedProperty(item, (<IPathArc>x).radius = null) && hasNamedProperty(item, (<IPathArc>x).startAngle = null) && hasNamedProperty(item, (<IPathArc>x).endAngle = null);
     }
 
+    /**
+     * An ellipse path.
+     * 
+     * Examples:
+     * ```
+     * var ellipse: IPathEllipse = { type: 'ellipse', origin: [0, 0], radiusX: 7, radiusY: 4 };   //typescript
+     * var ellipse = { type: 'ellipse', origin: [0, 0], radiusX: 7, radiusY: 4 };   //javascript
+     * ```
+     */
+    export interface IPathEllipse extends IPath {
+
+        /**
+         * The radius along the x axis of the ellipse, before rotation.
+         */
+        radiusX: number;
+
+        /**
+         * The radius along the y axis of the ellipse, before rotation.
+         */
+        radiusY: number;
+
+        /**
+         * Optional angle (in degrees) that the ellipse is rotated about its origin, in polar (counter-clockwise) direction.
+         */
+        angleOfRotation?: number;
+    }
+
+    /**
+     * Test to see if an object implements the required properties of an ellipse.
+     * 
+     * @param item The item to test.
+     */
+    export function isPathEllipse(item: any): boolean {
+        return isPath(item) && item.type == pathType.Ellipse && hasNamedProperty(item, (<IPathEllipse>x).radiusX = null) && hasNamedProperty(item, (<IPathEllipse>x).radiusY = null);
+    }
+
+    /**
+     * An elliptic arc path.
+     * 
+     * The start and end angles are parametric (eccentric) angles of the ellipse before rotation, so that the point at angle a is [radiusX * cos(a), radiusY * sin(a)].
+     * 
+     * Examples:
+     * ```
+     * var ellipticArc: IPathEllipticArc = { type: 'elliptic-arc', origin: [0, 0], radiusX: 7, radiusY: 4, startAngle: 0, endAngle: 45 };   //typescript
+     * var ellipticArc = { type: 'elliptic-arc', origin: [0, 0], radiusX: 7, radiusY: 4, startAngle: 0, endAngle: 45 };   //javascript
+     * ```
+     */
+    export interface IPathEllipticArc extends IPathEllipse {
+
+        /**
+         * The parametric angle (in degrees) to begin drawing the arc, in polar (counter-clockwise) direction.
+         */
+        startAngle: number;
+
+        /**
+         * The parametric angle (in degrees) to end drawing the arc, in polar (counter-clockwise) direction. May be less than start angle if it past 360.
+         */
+        endAngle: number;
+    }
+
+    /**
+     * Test to see if an object implements the required properties of an elliptic arc.
+     * 
+     * @param item The item to test.
+     */
+    export function isPathEllipticArc(item: any): boolean {
+        return isPath(item) && item.type == pathType.EllipticArc && hasNamedProperty(item, (<IPathEllipticArc>x).radiusX = null) && hasNamedProperty(item, (<IPathEllipticArc>x).radiusY = null) && hasNamedProperty(item, (<IPathEllipticArc>x).startAngle = null) && hasNamedProperty(item, (<IPathEllipticArc>x).endAngle = null);
+    }
+
     /**
      * A bezier seed defines the endpoints and control points of a bezier curve.
      */
@@ -405,7 +474,9 @@ namespace MakerJs {
         Line: "line",
         Circle: "circle",
         Arc: "arc",
-        BezierSeed: "bezier-seed"
+        BezierSeed: "bezier-seed",
+        Ellipse: "ellipse",
+        EllipticArc: "elliptic-arc"
     };
 
     /**
@@ -537,6 +608,11 @@ namespace MakerJs {
          * Flag to remove looped paths from the original model.
          */
         removeFromOriginal?: boolean;
+
+        /**
+         * Flag to separate loops by layers.
+         */
+        byLayers?: boolean;
     }
 
     /**
@@ -642,6 +718,74 @@ namespace MakerJs {
          * Optional exporter options for this model.
          */
         exporterOptions?: { [exporterName: string]: any };
+
+        /**
+         * Optional registry of layer metadata, used by exporters to render paths on each layer.
+         */
+        layers?: ILayerMap;
+    }
+
+    /**
+     * String-based enumeration of operations which a machine may perform on a layer.
+     */
+    export var layerOperation = {
+        Cut: 'cut',
+        Score: 'score',
+        Engrave: 'engrave',
+        Pocket: 'pocket'
+    };
+
+    /**
+     * Metadata of a layer. All properties are optional; exporters fall back to their own options when a property is omitted.
+     */
+    export interface ILayerOptions {
+
+        /**
+         * Color as a hexadecimal string, e.g. "#ff0000".
+         */
+        color?: string;
+
+        /**
+         * Line weight, in millimeters.
+         */
+        lineWeight?: number;
+
+        /**
+         * Flag to hide the layer. Hidden layers are not drawn.
+         */
+        visible?: boolean;
+
+        /**
+         * Machine operation on the layer. See layerOperation for possible values.
+         */
+        operation?: string;
+
+        /**
+         * Depth of cut, in the model's unit system.
+         */
+        depth?: number;
+
+        /**
+         * Tool power, such as laser power or spindle speed.
+         */
+        power?: number;
+
+        /**
+         * Feed rate of cutting moves, per minute.
+         */
+        speed?: number;
+
+        /**
+         * Pen number of a plotter.
+         */
+        pen?: number;
+    }
+
+    /**
+     * A map of layer metadata, referenced by layer name.
+     */
+    export interface ILayerMap {
+        [layer: string]: ILayerOptions;
     }
 
     /**
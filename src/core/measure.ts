@@ -111,11 +111,11 @@ namespace MakerJs.measure {
      * Check if a given angle is between an arc's start and end angles.
      * 
      * @param angleInQuestion The angle to test.
-     * @param arc Arc to test against.
+     * @param arc Arc or elliptic arc to test against.
      * @param exclusive Flag to exclude equaling the start or end angles.
      * @returns Boolean true if angle is between (or equal to) the arc's start and end angles.
      */
-    export function isBetweenArcAngles(angleInQuestion: number, arc: IPathArc, exclusive: boolean): boolean {
+    export function isBetweenArcAngles(angleInQuestion: number, arc: IPathArc | IPathEllipticArc, exclusive: boolean): boolean {
 
         var startAngle = angle.noRevolutions(arc.startAngle);
         var span = angle.ofArcSpan(arc);
@@ -295,6 +295,62 @@ namespace MakerJs.measure {
         }
     }
 
+    pathExtentsMap[pathType.Ellipse] = function (ellipse: IPathEllipse): IMeasure {
+        var r = ellipseHalfExtents(ellipse);
+        return {
+            low: point.subtract(ellipse.origin, r),
+            high: point.add(ellipse.origin, r)
+        }
+    }
+
+    pathExtentsMap[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc): IMeasure {
+        var arcPoints = point.fromPathEnds(ellipticArc);
+        var rotation = angle.toRadians(ellipticArc.angleOfRotation || 0);
+        var cos = Math.cos(rotation);
+        var sin = Math.sin(rotation);
+
+        //parametric angles where x and y are at their extremes
+        var xAngle = angle.toDegrees(Math.atan2(-ellipticArc.radiusY * sin, ellipticArc.radiusX * cos));
+        var yAngle = angle.toDegrees(Math.atan2(ellipticArc.radiusY * cos, ellipticArc.radiusX * sin));
+
+        var low = getExtremePoint(arcPoints[0], arcPoints[1], Math.min);
+        var high = getExtremePoint(arcPoints[0], arcPoints[1], Math.max);
+
+        [xAngle, xAngle + 180, yAngle, yAngle + 180].forEach(function (a: number, i: number) {
+            if (isBetweenArcAngles(a, ellipticArc, false)) {
+                var p = point.fromAngleOnEllipse(a, ellipticArc);
+                var xy = i < 2 ? 0 : 1;
+                low[xy] = Math.min(low[xy], p[xy]);
+                high[xy] = Math.max(high[xy], p[xy]);
+            }
+        });
+
+        return {
+            low: low,
+            high: high
+        }
+    }
+
+    pathExtentsMap[pathType.BezierSeed] = function (seed: IPathBezierSeed): IMeasure {
+        return models.BezierCurve.computeExtents(seed);
+    }
+
+    /**
+     * @private
+     */
+    function ellipseHalfExtents(ellipse: IPathEllipse): IPoint {
+        var rotation = angle.toRadians(ellipse.angleOfRotation || 0);
+        var cos = Math.cos(rotation);
+        var sin = Math.sin(rotation);
+        var rx = ellipse.radiusX;
+        var ry = ellipse.radiusY;
+
+        return [
+            Math.sqrt(rx * rx * cos * cos + ry * ry * sin * sin),
+            Math.sqrt(rx * rx * sin * sin + ry * ry * cos * cos)
+        ];
+    }
+
     /**
      * Calculates the smallest rectangle which contains a path.
      * 
@@ -340,6 +396,42 @@ namespace MakerJs.measure {
         return value;
     }
 
+    pathLengthMap[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc) {
+        var startAngle = angle.toRadians(ellipticArc.startAngle);
+        var span = angle.ofArcSpan(ellipticArc) * Math.PI / 180;
+
+        function speed(t: number) {
+            return Math.sqrt(Math.pow(ellipticArc.radiusX * Math.sin(t), 2) + Math.pow(ellipticArc.radiusY * Math.cos(t), 2));
+        }
+
+        //Simpson's rule integration of the arc length
+        var n = 2 * Math.ceil(span / Math.PI * 64);
+        var h = span / n;
+        var sum = speed(startAngle) + speed(startAngle + span);
+
+        for (var i = 1; i < n; i++) {
+            sum += (i % 2 ? 4 : 2) * speed(startAngle + i * h);
+        }
+
+        return sum * h / 3;
+    }
+
+    pathLengthMap[pathType.Ellipse] = function (ellipse: IPathEllipse) {
+        var ellipticArc: IPathEllipticArc = {
+            type: pathType.EllipticArc,
+            origin: ellipse.origin,
+            radiusX: ellipse.radiusX,
+            radiusY: ellipse.radiusY,
+            startAngle: 0,
+            endAngle: 360
+        };
+        return pathLengthMap[pathType.EllipticArc](ellipticArc);
+    }
+
+    pathLengthMap[pathType.BezierSeed] = function (seed: IPathBezierSeed) {
+        return models.BezierCurve.computeLength(seed);
+    }
+
     /**
      * Measures the length of a path.
      * 
@@ -0,0 +1,468 @@
+namespace MakerJs.exporter {
+
+    /**
+     * A triangle mesh of an evaluated OpenJsCad object.
+     * @private
+     */
+    interface IMesh {
+        name: string;
+        vertices: number[][];
+        triangles: number[][];
+        normals: number[][];
+    }
+
+    /**
+     * Unit name and scale of a mesh file format.
+     * @private
+     */
+    interface IMeshUnit {
+        unit: string;
+        scale: number;
+    }
+
+    /**
+     * @private
+     */
+    interface IMeshUnitMap {
+        [unitType: string]: IMeshUnit;
+    }
+
+    /**
+     * @private
+     */
+    interface IZipEntry {
+        name: string;
+        data: Uint8Array;
+    }
+
+    /**
+     * @private
+     */
+    function csgToMesh(csg: CSG, name: string, scale: number, accuracy: number): IMesh {
+        var mesh: IMesh = { name: name, vertices: [], triangles: [], normals: [] };
+        var vertexIndexes: { [key: string]: number } = {};
+
+        function vertexIndex(vertex: CSG.Vertex): number {
+            var p = [vertex.pos.x, vertex.pos.y, vertex.pos.z].map(function (n: number) { return round(n * scale, accuracy); });
+            var key = p.join(',');
+
+            if (!(key in vertexIndexes)) {
+                vertexIndexes[key] = mesh.vertices.length;
+                mesh.vertices.push(p);
+            }
+
+            return vertexIndexes[key];
+        }
+
+        csg.toPolygons().forEach(function (polygon: CSG.Polygon) {
+            var indexes = polygon.vertices.map(vertexIndex);
+            var normal = polygon.plane.normal;
+
+            //polygons are convex, so they can be split into a fan of triangles
+            for (var i = 2; i < indexes.length; i++) {
+                var triangle = [indexes[0], indexes[i - 1], indexes[i]];
+
+                //skip triangles which collapsed when rounding
+                if (triangle[0] === triangle[1] || triangle[1] === triangle[2] || triangle[2] === triangle[0]) continue;
+
+                mesh.triangles.push(triangle);
+                mesh.normals.push([normal.x, normal.y, normal.z]);
+            }
+        });
+
+        return mesh;
+    }
+
+    /**
+     * @private
+     */
+    function getMeshes(modelToExport: IModel, options: IMeshRenderOptions, unitMap: IMeshUnitMap): IMesh[] {
+        var meshUnit = unitMap[modelToExport.units];
+        var scale = meshUnit ? meshUnit.scale : 1;
+        var meshes: IMesh[] = [];
+
+        if (options.separateObjects && options.modelMap && modelToExport.models) {
+            for (var modelId in options.modelMap) {
+                var childModel = modelToExport.models[modelId];
+                if (childModel) {
+                    meshes.push(csgToMesh(toCSG(childModel, options.modelMap[modelId]), modelId, scale, options.accuracy));
+                }
+            }
+        }
+
+        if (!meshes.length) {
+            meshes.push(csgToMesh(toCSG(modelToExport, options), 'model', scale, options.accuracy));
+        }
+
+        return meshes;
+    }
+
+    /**
+     * @private
+     */
+    function getMeshOptions(modelToExport: IModel, exporterName: string, options: IMeshRenderOptions): IMeshRenderOptions {
+        var opts: IMeshRenderOptions = {
+            accuracy: .001
+        };
+
+        extendObject(opts, options);
+
+        if (modelToExport.exporterOptions) {
+            extendObject(opts, modelToExport.exporterOptions[exporterName]);
+        }
+
+        //pass options back into calling object
+        extendObject(options, opts);
+
+        return opts;
+    }
+
+    /**
+     * @private
+     */
+    function xmlElement(name: string, attrs: IXmlTagAttrs, innerXml: string = ''): string {
+        var tag = new XmlTag(name, attrs);
+        tag.innerText = innerXml;
+        tag.innerTextEscaped = true;
+        return tag.toString();
+    }
+
+    /**
+     * @private
+     */
+    function toUtf8Bytes(value: string): Uint8Array {
+        var encoded = encodeURIComponent(value);
+        var bytes: number[] = [];
+
+        for (var i = 0; i < encoded.length; i++) {
+            if (encoded[i] === '%') {
+                bytes.push(parseInt(encoded.substr(i + 1, 2), 16));
+                i += 2;
+            } else {
+                bytes.push(encoded.charCodeAt(i));
+            }
+        }
+
+        return new Uint8Array(bytes);
+    }
+
+    /**
+     * @private
+     */
+    var crcTable: number[];
+
+    /**
+     * @private
+     */
+    function crc32(data: Uint8Array): number {
+        if (!crcTable) {
+            crcTable = [];
+            for (var n = 0; n < 256; n++) {
+                var c = n;
+                for (var k = 0; k < 8; k++) {
+                    c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+                }
+                crcTable.push(c);
+            }
+        }
+
+        var crc = 0xFFFFFFFF;
+        for (var i = 0; i < data.length; i++) {
+            crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+        }
+
+        return (crc ^ 0xFFFFFFFF) >>> 0;
+    }
+
+    /**
+     * Packages files in a zip archive without compression.
+     * @private
+     */
+    function toStoredZip(entries: IZipEntry[]): Uint8Array {
+        var dosDate = (1 << 5) | 1;    //1980-01-01
+        var localHeaders: Uint8Array[] = [];
+        var centralHeaders: Uint8Array[] = [];
+        var offset = 0;
+        var centralSize = 0;
+
+        entries.forEach(function (entry: IZipEntry) {
+            var name = toUtf8Bytes(entry.name);
+            var crc = crc32(entry.data);
+
+            var local = new Uint8Array(30 + name.length);
+            var lv = new DataView(local.buffer);
+            lv.setUint32(0, 0x04034b50, true);
+            lv.setUint16(4, 20, true);
+            lv.setUint16(12, dosDate, true);
+            lv.setUint32(14, crc, true);
+            lv.setUint32(18, entry.data.length, true);
+            lv.setUint32(22, entry.data.length, true);
+            lv.setUint16(26, name.length, true);
+            local.set(name, 30);
+
+            var central = new Uint8Array(46 + name.length);
+            var cv = new DataView(central.buffer);
+            cv.setUint32(0, 0x02014b50, true);
+            cv.setUint16(4, 20, true);
+            cv.setUint16(6, 20, true);
+            cv.setUint16(14, dosDate, true);
+            cv.setUint32(16, crc, true);
+            cv.setUint32(20, entry.data.length, true);
+            cv.setUint32(24, entry.data.length, true);
+            cv.setUint16(28, name.length, true);
+            cv.setUint32(42, offset, true);
+            central.set(name, 46);
+
+            localHeaders.push(local, entry.data);
+            centralHeaders.push(central);
+
+            offset += local.length + entry.data.length;
+            centralSize += central.length;
+        });
+
+        var end = new Uint8Array(22);
+        var ev = new DataView(end.buffer);
+        ev.setUint32(0, 0x06054b50, true);
+        ev.setUint16(8, entries.length, true);
+        ev.setUint16(10, entries.length, true);
+        ev.setUint32(12, centralSize, true);
+        ev.setUint32(16, offset, true);
+
+        var parts = localHeaders.concat(centralHeaders, [end]);
+        var zip = new Uint8Array(offset + centralSize + end.length);
+        var position = 0;
+
+        parts.forEach(function (part: Uint8Array) {
+            zip.set(part, position);
+            position += part.length;
+        });
+
+        return zip;
+    }
+
+    /**
+     * Renders a model as a 3D object in binary STL format, a list of triangles which is more compact than ASCII STL.
+     *
+     * @param modelToExport Model object to export.
+     * @param options Optional export options object.
+     * @returns Bytes of binary STL format of 3D object.
+     */
+    export function toBinarySTL(modelToExport: IModel, options?: IMeshRenderOptions): Uint8Array {
+        if (!modelToExport) return null;
+
+        var opts = getMeshOptions(modelToExport, 'toBinarySTL', options);
+        var meshes = getMeshes(modelToExport, opts, {});
+
+        var triangleCount = 0;
+        meshes.forEach(function (mesh: IMesh) { triangleCount += mesh.triangles.length; });
+
+        var stl = new Uint8Array(84 + triangleCount * 50);
+        var view = new DataView(stl.buffer);
+
+        //the header must not begin with "solid", which would be mistaken for ASCII STL
+        var header = toUtf8Bytes('Maker.js' + (modelToExport.units ? ' units=' + modelToExport.units : ''));
+        stl.set(header.subarray(0, 80), 0);
+
+        view.setUint32(80, triangleCount, true);
+
+        var position = 84;
+
+        function writeVector(v: number[]) {
+            for (var i = 0; i < 3; i++) {
+                view.setFloat32(position, v[i], true);
+                position += 4;
+            }
+        }
+
+        meshes.forEach(function (mesh: IMesh) {
+            mesh.triangles.forEach(function (triangle: number[], i: number) {
+                writeVector(mesh.normals[i]);
+                triangle.forEach(function (vertexIndex: number) {
+                    writeVector(mesh.vertices[vertexIndex]);
+                });
+
+                //attribute byte count
+                position += 2;
+            });
+        });
+
+        return stl;
+    }
+
+    /**
+     * Renders a model as a 3D object in Wavefront OBJ format, a text list of vertices and faces.
+     *
+     * @param modelToExport Model object to export.
+     * @param options Optional export options object.
+     * @returns String of Wavefront OBJ format of 3D object.
+     */
+    export function toOBJ(modelToExport: IModel, options?: IMeshRenderOptions): string {
+        if (!modelToExport) return '';
+
+        var opts = getMeshOptions(modelToExport, 'toOBJ', options);
+        var meshes = getMeshes(modelToExport, opts, {});
+
+        var obj: string[] = ['# Maker.js'];
+
+        //OBJ has no unit system, so it is noted in a comment
+        if (modelToExport.units) {
+            obj.push('# units: ' + modelToExport.units);
+        }
+
+        //vertex indexes are 1-based and shared across objects
+        var base = 1;
+
+        meshes.forEach(function (mesh: IMesh) {
+            obj.push('o ' + mesh.name);
+
+            mesh.vertices.forEach(function (v: number[]) {
+                obj.push('v ' + v.join(' '));
+            });
+
+            mesh.triangles.forEach(function (triangle: number[]) {
+                obj.push('f ' + triangle.map(function (vertexIndex: number) { return vertexIndex + base; }).join(' '));
+            });
+
+            base += mesh.vertices.length;
+        });
+
+        return obj.join('\n') + '\n';
+    }
+
+    /**
+     * Renders a model as a 3D object in AMF (Additive Manufacturing File) format, an XML mesh with units.
+     *
+     * @param modelToExport Model object to export.
+     * @param options Optional export options object.
+     * @returns String of AMF format of 3D object.
+     */
+    export function toAMF(modelToExport: IModel, options?: IMeshRenderOptions): string {
+        if (!modelToExport) return '';
+
+        var opts = getMeshOptions(modelToExport, 'toAMF', options);
+        var meshes = getMeshes(modelToExport, opts, amfUnits);
+
+        var objects = meshes.map(function (mesh: IMesh, i: number) {
+
+            var vertices = mesh.vertices.map(function (v: number[]) {
+                var coordinates = xmlElement('x', null, String(v[0])) + xmlElement('y', null, String(v[1])) + xmlElement('z', null, String(v[2]));
+                return xmlElement('vertex', null, xmlElement('coordinates', null, coordinates));
+            });
+
+            var triangles = mesh.triangles.map(function (triangle: number[]) {
+                return xmlElement('triangle', null, triangle.map(function (vertexIndex: number, j: number) {
+                    return xmlElement('v' + (j + 1), null, String(vertexIndex));
+                }).join(''));
+            });
+
+            var metadata = xmlElement('metadata', { type: 'name' }, XmlTag.escapeString(mesh.name));
+            var meshXml = xmlElement('mesh', null, xmlElement('vertices', null, vertices.join('')) + xmlElement('volume', null, triangles.join('')));
+
+            return xmlElement('object', { id: i }, metadata + meshXml);
+        });
+
+        var amfUnit = amfUnits[modelToExport.units];
+        var amfAttrs: IXmlTagAttrs = { unit: amfUnit ? amfUnit.unit : 'millimeter', version: '1.1' };
+
+        return '<?xml version="1.0" encoding="UTF-8"?>\n' + xmlElement('amf', amfAttrs, objects.join('\n'));
+    }
+
+    /**
+     * Renders a model as a 3D object in 3MF (3D Manufacturing Format), a zip package of an XML mesh with units.
+     *
+     * @param modelToExport Model object to export.
+     * @param options Optional export options object.
+     * @returns Bytes of 3MF package of 3D object, a zip archive without compression.
+     */
+    export function to3MF(modelToExport: IModel, options?: IMeshRenderOptions): Uint8Array {
+        if (!modelToExport) return null;
+
+        var opts = getMeshOptions(modelToExport, 'to3MF', options);
+        var meshes = getMeshes(modelToExport, opts, threeMfUnits);
+
+        var objects: string[] = [];
+        var items: string[] = [];
+
+        meshes.forEach(function (mesh: IMesh, i: number) {
+            var id = i + 1;
+
+            var vertices = mesh.vertices.map(function (v: number[]) {
+                return xmlElement('vertex', { x: v[0], y: v[1], z: v[2] });
+            });
+
+            var triangles = mesh.triangles.map(function (triangle: number[]) {
+                return xmlElement('triangle', { v1: triangle[0], v2: triangle[1], v3: triangle[2] });
+            });
+
+            var meshXml = xmlElement('mesh', null, xmlElement('vertices', null, vertices.join('')) + xmlElement('triangles', null, triangles.join('')));
+
+            objects.push(xmlElement('object', { id: id, name: mesh.name, type: 'model' }, meshXml));
+            items.push(xmlElement('item', { objectid: id }));
+        });
+
+        var threeMfUnit = threeMfUnits[modelToExport.units];
+        var modelAttrs: IXmlTagAttrs = {
+            unit: threeMfUnit ? threeMfUnit.unit : 'millimeter',
+            'xml:lang': 'en-US',
+            xmlns: 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02'
+        };
+
+        var xmlDeclaration = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+        var contentTypes = xmlElement('Types', { xmlns: 'http://schemas.openxmlformats.org/package/2006/content-types' },
+            xmlElement('Default', { Extension: 'rels', ContentType: 'application/vnd.openxmlformats-package.relationships+xml' }) +
+            xmlElement('Default', { Extension: 'model', ContentType: 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml' })
+        );
+
+        var relationships = xmlElement('Relationships', { xmlns: 'http://schemas.openxmlformats.org/package/2006/relationships' },
+            xmlElement('Relationship', { Target: '/3D/3dmodel.model', Id: 'rel0', Type: 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel' })
+        );
+
+        var modelXml = xmlElement('model', modelAttrs, xmlElement('resources', null, objects.join('\n')) + xmlElement('build', null, items.join('')));
+
+        return toStoredZip([
+            { name: '[Content_Types].xml', data: toUtf8Bytes(xmlDeclaration + contentTypes) },
+            { name: '_rels/.rels', data: toUtf8Bytes(xmlDeclaration + relationships) },
+            { name: '3D/3dmodel.model', data: toUtf8Bytes(xmlDeclaration + modelXml) }
+        ]);
+    }
+
+    /**
+     * AMF has no centimeter unit, so centimeters are written as millimeters.
+     * @private
+     */
+    var amfUnits: IMeshUnitMap = {};
+
+    amfUnits[unitType.Millimeter] = { unit: 'millimeter', scale: 1 };
+    amfUnits[unitType.Centimeter] = { unit: 'millimeter', scale: 10 };
+    amfUnits[unitType.Meter] = { unit: 'meter', scale: 1 };
+    amfUnits[unitType.Inch] = { unit: 'inch', scale: 1 };
+    amfUnits[unitType.Foot] = { unit: 'feet', scale: 1 };
+
+    /**
+     * @private
+     */
+    var threeMfUnits: IMeshUnitMap = {};
+
+    threeMfUnits[unitType.Millimeter] = { unit: 'millimeter', scale: 1 };
+    threeMfUnits[unitType.Centimeter] = { unit: 'centimeter', scale: 1 };
+    threeMfUnits[unitType.Meter] = { unit: 'meter', scale: 1 };
+    threeMfUnits[unitType.Inch] = { unit: 'inch', scale: 1 };
+    threeMfUnits[unitType.Foot] = { unit: 'foot', scale: 1 };
+
+    /**
+     * Mesh export options, for STL, OBJ, AMF and 3MF.
+     */
+    export interface IMeshRenderOptions extends IOpenJsCadOptions {
+
+        /**
+         * Optional exemplar of number of decimal places of vertex coordinates.
+         */
+        accuracy?: number;
+
+        /**
+         * Flag to export each entry of the modelMap as a separate object, rather than a union of all.
+         */
+        separateObjects?: boolean;
+    }
+}
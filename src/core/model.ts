@@ -284,6 +284,59 @@ namespace MakerJs.model {
         return modelToScale;
     }
 
+    /**
+     * Create a distorted copy of a model - scale x and y individually.
+     * 
+     * @param modelToDistort The model to distort.
+     * @param scaleX The amount of x scaling.
+     * @param scaleY The amount of y scaling.
+     * @param scaleOrigin Optional boolean to scale the origin point. Typically false for the root model.
+     * @returns New model. Circles and arcs become ellipses and elliptic arcs.
+     */
+    export function distort(modelToDistort: IModel, scaleX: number, scaleY: number, scaleOrigin = false): IModel {
+        var distorted: IModel = {};
+
+        if (modelToDistort.origin) {
+            distorted.origin = scaleOrigin ? point.distort(modelToDistort.origin, scaleX, scaleY) : point.clone(modelToDistort.origin);
+        }
+
+        if (modelToDistort.type === models.BezierCurve.typeName) {
+            var seed = (modelToDistort as models.BezierCurve).seed;
+            var b = new models.BezierCurve((path.distort(seed, scaleX, scaleY) || cloneObject(seed)) as IPathBezierSeed, (modelToDistort as models.BezierCurve).accuracy);
+            b.origin = distorted.origin;
+            return b;
+        }
+
+        if (modelToDistort.layer) {
+            distorted.layer = modelToDistort.layer;
+        }
+
+        if (modelToDistort.units) {
+            distorted.units = modelToDistort.units;
+        }
+
+        if (modelToDistort.paths) {
+            for (var id in modelToDistort.paths) {
+                var pathToDistort = modelToDistort.paths[id];
+                if (!pathToDistort) continue;
+
+                if (!distorted.paths) distorted.paths = {};
+                distorted.paths[id] = path.distort(pathToDistort, scaleX, scaleY) || cloneObject(pathToDistort);
+            }
+        }
+
+        if (modelToDistort.models) {
+            if (!distorted.models) distorted.models = {};
+            for (var id in modelToDistort.models) {
+                var childModel = modelToDistort.models[id];
+                if (!childModel) continue;
+                distorted.models[getSimilarModelId(distorted, id)] = distort(childModel, scaleX, scaleY, true);
+            }
+        }
+
+        return distorted;
+    }
+
     /**
      * Convert a model to match a different unit system.
      * 
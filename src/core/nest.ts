@@ -0,0 +1,296 @@
+namespace MakerJs.layout {
+
+    /**
+     * A rectangle of a sheet, at [x, y] with width and height.
+     * @private
+     */
+    interface INestRect {
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+    }
+
+    /**
+     * A copy of a part to place, with the size of its outer loops at each allowed rotation.
+     * @private
+     */
+    interface INestItem {
+        partIndex: number;
+        copy: number;
+        footprints: INestFootprint[];
+    }
+
+    /**
+     * @private
+     */
+    interface INestFootprint {
+        rotation: number;
+        extents: IMeasure;
+        width: number;
+        height: number;
+    }
+
+    /**
+     * A sheet being filled, with the rectangles which remain free.
+     * @private
+     */
+    interface INestSheet {
+        model: IModel;
+        free: INestRect[];
+        count: number;
+    }
+
+    /**
+     * Extents of the outer loops of a part, at each rotation.
+     * @private
+     */
+    function footprints(part: IModel, rotations: number[], opts: INestOptions): INestFootprint[] {
+        var loops = model.findLoops(cloneObject(part), opts);
+        var outer = loops.models && loops.models[0];
+
+        //a part without loops is measured by all of its paths
+        if (!outer || !measure.modelExtents(outer)) {
+            outer = cloneObject(part);
+        }
+
+        var result: INestFootprint[] = [];
+
+        rotations.forEach(function (rotation: number) {
+            var extents = measure.modelExtents(model.rotate(cloneObject(outer), rotation, [0, 0]));
+            if (!extents) return;
+
+            result.push({
+                rotation: rotation,
+                extents: extents,
+                width: extents.high[0] - extents.low[0] + opts.spacing,
+                height: extents.high[1] - extents.low[1] + opts.spacing
+            });
+        });
+
+        return result;
+    }
+
+    /**
+     * @private
+     */
+    function isRectInside(a: INestRect, b: INestRect): boolean {
+        return a.x >= b.x && a.y >= b.y && a.x + a.width <= b.x + b.width && a.y + a.height <= b.y + b.height;
+    }
+
+    /**
+     * Remove a placed rectangle from the free rectangles, keeping the largest free rectangles around it.
+     * @private
+     */
+    function splitFree(free: INestRect[], used: INestRect): INestRect[] {
+        var result: INestRect[] = [];
+
+        free.forEach(function (rect: INestRect) {
+            if (used.x >= rect.x + rect.width || used.x + used.width <= rect.x || used.y >= rect.y + rect.height || used.y + used.height <= rect.y) {
+                result.push(rect);
+                return;
+            }
+
+            if (used.x > rect.x) {
+                result.push({ x: rect.x, y: rect.y, width: used.x - rect.x, height: rect.height });
+            }
+
+            if (used.x + used.width < rect.x + rect.width) {
+                result.push({ x: used.x + used.width, y: rect.y, width: rect.x + rect.width - used.x - used.width, height: rect.height });
+            }
+
+            if (used.y > rect.y) {
+                result.push({ x: rect.x, y: rect.y, width: rect.width, height: used.y - rect.y });
+            }
+
+            if (used.y + used.height < rect.y + rect.height) {
+                result.push({ x: rect.x, y: used.y + used.height, width: rect.width, height: rect.y + rect.height - used.y - used.height });
+            }
+        });
+
+        //discard rectangles within other rectangles
+        return result.filter(function (rect: INestRect, i: number) {
+            for (var j = 0; j < result.length; j++) {
+                if (i !== j && isRectInside(rect, result[j]) && (!isRectInside(result[j], rect) || j < i)) {
+                    return false;
+                }
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Place an item in the free rectangle which leaves the shortest side over, at any allowed rotation.
+     * @private
+     */
+    function placeItem(sheet: INestSheet, item: INestItem, parts: IModel[]): boolean {
+        var best: INestRect = null;
+        var bestFootprint: INestFootprint;
+        var bestFit: number;
+
+        sheet.free.forEach(function (rect: INestRect) {
+            item.footprints.forEach(function (footprint: INestFootprint) {
+                if (round(footprint.width - rect.width) > 0 || round(footprint.height - rect.height) > 0) return;
+
+                var fit = Math.min(rect.width - footprint.width, rect.height - footprint.height);
+
+                if (!best || fit < bestFit) {
+                    best = { x: rect.x, y: rect.y, width: footprint.width, height: footprint.height };
+                    bestFootprint = footprint;
+                    bestFit = fit;
+                }
+            });
+        });
+
+        if (!best) return false;
+
+        sheet.free = splitFree(sheet.free, best);
+
+        //rotate a copy, then move its outer loops to the corner of the free rectangle
+        var copy = model.rotate(cloneObject(parts[item.partIndex]), bestFootprint.rotation, [0, 0]);
+        model.moveRelative(copy, point.subtract([best.x, best.y], bestFootprint.extents.low));
+
+        sheet.model.models['parts'].models[item.partIndex + '_' + item.copy] = copy;
+        sheet.count++;
+
+        return true;
+    }
+
+    /**
+     * Arrange copies of parts onto sheets of stock, packing the rectangles around their outer loops. More sheets are added as needed.
+     *
+     * Example:
+     * ```
+     * var nested = makerjs.layout.nest([partA, partB], [1200, 600], { spacing: 5, rotations: [0, 90], quantity: [10, 4] });
+     * ```
+     *
+     * @param parts Array of models to place.
+     * @param sheet Model of a sheet, which is measured by its extents, or an array of the width and height of a sheet.
+     * @param options Optional options object.
+     * @returns Object with an array of sheet models, and an array of parts which did not fit.
+     */
+    export function nest(parts: IModel[], sheet: IModel | number[], options?: INestOptions): INestResult {
+
+        var opts: INestOptions = {
+            spacing: 0,
+            rotations: [0],
+            quantity: 1,
+            pointMatchingDistance: .005
+        };
+
+        extendObject(opts, options);
+
+        var sheetModel: IModel;
+
+        if (Array.isArray(sheet)) {
+            var size = <number[]>sheet;
+            sheetModel = new models.Rectangle(size[0], size[1]);
+        } else {
+            sheetModel = <IModel>sheet;
+        }
+
+        var sheetExtents = measure.modelExtents(sheetModel);
+        var result: INestResult = { sheets: [], notFit: [] };
+
+        if (!sheetExtents) return result;
+
+        //parts are spaced apart, but not from the edges of the sheet
+        var sheetRect: INestRect = {
+            x: sheetExtents.low[0],
+            y: sheetExtents.low[1],
+            width: sheetExtents.high[0] - sheetExtents.low[0] + opts.spacing,
+            height: sheetExtents.high[1] - sheetExtents.low[1] + opts.spacing
+        };
+
+        var items: INestItem[] = [];
+
+        parts.forEach(function (part: IModel, i: number) {
+            var quantity = Array.isArray(opts.quantity) ? (<number[]>opts.quantity)[i] : <number>opts.quantity;
+            var partFootprints = footprints(part, opts.rotations, opts);
+
+            for (var copy = 0; copy < quantity; copy++) {
+                items.push({ partIndex: i, copy: copy, footprints: partFootprints });
+            }
+        });
+
+        function area(item: INestItem) {
+            return item.footprints.length ? item.footprints[0].width * item.footprints[0].height : 0;
+        }
+
+        //largest first
+        items.sort(function (a: INestItem, b: INestItem) { return area(b) - area(a); });
+
+        var sheets: INestSheet[] = [];
+
+        function addSheet(): INestSheet {
+            var newSheet: INestSheet = {
+                model: { models: { sheet: cloneObject(sheetModel), parts: { models: {} } } },
+                free: [sheetRect],
+                count: 0
+            };
+            sheets.push(newSheet);
+            return newSheet;
+        }
+
+        items.forEach(function (item: INestItem) {
+            for (var i = 0; i < sheets.length; i++) {
+                if (placeItem(sheets[i], item, parts)) return;
+            }
+
+            //a part which does not fit on an empty sheet will not fit on any sheet
+            if (!opts.maxSheets || sheets.length < opts.maxSheets) {
+                var newSheet = addSheet();
+                if (placeItem(newSheet, item, parts)) return;
+                sheets.pop();
+            }
+
+            result.notFit.push(parts[item.partIndex]);
+        });
+
+        result.sheets = sheets.map(function (s: INestSheet) { return s.model; });
+
+        return result;
+    }
+
+    /**
+     * Options to pass to layout.nest.
+     */
+    export interface INestOptions extends IPointMatchOptions {
+
+        /**
+         * Optional distance between parts. Default is 0.
+         */
+        spacing?: number;
+
+        /**
+         * Optional array of angles in degrees which parts may be rotated to. Default is [0].
+         */
+        rotations?: number[];
+
+        /**
+         * Optional number of copies of every part, or an array of the number of copies of each part. Default is 1.
+         */
+        quantity?: number | number[];
+
+        /**
+         * Optional maximum number of sheets. Default is no maximum.
+         */
+        maxSheets?: number;
+    }
+
+    /**
+     * Result of layout.nest.
+     */
+    export interface INestResult {
+
+        /**
+         * Array of sheet models. Each has a "sheet" child model of the stock, and a "parts" child model of the placed copies.
+         */
+        sheets: IModel[];
+
+        /**
+         * Array of the parts which could not be placed, once for each copy.
+         */
+        notFit: IModel[];
+    }
+}
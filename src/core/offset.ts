@@ -0,0 +1,426 @@
+namespace MakerJs.chain {
+
+    /**
+     * A path of an offset chain, in absolute coordinates, with the direction of travel along the chain.
+     * @private
+     */
+    interface IOffsetSegment {
+        pathContext: IPath;
+        reversed: boolean;
+
+        /**
+         * The point of the original chain at the start of this segment.
+         */
+        corner: IPoint;
+    }
+
+    /**
+     * @private
+     */
+    function isFullCircle(pathContext: IPath): boolean {
+        return pathContext.type === pathType.Circle || (pathContext.type === pathType.Arc && round(angle.ofArcSpan(<IPathArc>pathContext) - 360) === 0);
+    }
+
+    /**
+     * @private
+     */
+    function segmentEnd(segment: IOffsetSegment, atStart: boolean): IPoint {
+        var endPoints = point.fromPathEnds(segment.pathContext);
+        return endPoints[(atStart === !segment.reversed) ? 0 : 1];
+    }
+
+    /**
+     * Change the start or end of a segment in its direction of travel.
+     * @private
+     */
+    function setSegmentEnd(segment: IOffsetSegment, atStart: boolean, p: IPoint) {
+        var useOrigin = (atStart === !segment.reversed);
+
+        switch (segment.pathContext.type) {
+            case pathType.Line:
+                var line = <IPathLine>segment.pathContext;
+                if (useOrigin) {
+                    line.origin = p;
+                } else {
+                    line.end = p;
+                }
+                break;
+
+            case pathType.Arc:
+                var arc = <IPathArc>segment.pathContext;
+                var a = angle.ofPointInDegrees(arc.origin, p);
+                if (useOrigin) {
+                    arc.startAngle = a;
+                } else {
+                    arc.endAngle = a;
+                }
+                break;
+        }
+    }
+
+    /**
+     * Offset a path to the left of its direction of travel.
+     * @private
+     */
+    function offsetPath(pathContext: IPath, reversed: boolean, leftDistance: number): IPath {
+
+        switch (pathContext.type) {
+            case pathType.Line:
+                var line = <IPathLine>pathContext;
+                var direction = point.subtract(line.end, line.origin);
+                var length = measure.pointDistance(line.origin, line.end);
+                var normal: IPoint = [-direction[1] / length, direction[0] / length];
+                var delta = point.scale(normal, reversed ? -leftDistance : leftDistance);
+                return new paths.Line(point.add(line.origin, delta), point.add(line.end, delta));
+
+            case pathType.Arc:
+            case pathType.Circle:
+                var circle = <IPathCircle>pathContext;
+
+                //counter-clockwise travel has the center on its left
+                var radius = circle.radius + (reversed ? leftDistance : -leftDistance);
+                if (round(radius) <= 0) return null;
+
+                if (pathContext.type === pathType.Circle) {
+                    return new paths.Circle(circle.origin, radius);
+                }
+
+                var arc = <IPathArc>pathContext;
+                return new paths.Arc(arc.origin, radius, arc.startAngle, arc.endAngle);
+        }
+
+        return null;
+    }
+
+    /**
+     * Intersection of the lines and circles which two segments lie on, nearest to a point.
+     * @private
+     */
+    function extendedIntersection(a: IOffsetSegment, b: IOffsetSegment, near: IPoint): IPoint {
+        var pathA = a.pathContext;
+        var pathB = b.pathContext;
+
+        if (pathA.type === pathType.Line && pathB.type === pathType.Line) {
+            return point.fromSlopeIntersection(<IPathLine>pathA, <IPathLine>pathB);
+        }
+
+        function extend(pathContext: IPath, other: IPath): IPath {
+            if (pathContext.type === pathType.Arc) {
+                var arc = <IPathArc>pathContext;
+                return new paths.Circle(arc.origin, arc.radius);
+            }
+
+            //a line long enough to cross the circle of the other path
+            var line = <IPathLine>pathContext;
+            var circle = <IPathCircle>other;
+            var reach = measure.pointDistance(line.origin, circle.origin) + measure.pointDistance(line.end, circle.origin) + circle.radius;
+            var delta = point.scale(point.subtract(line.end, line.origin), reach / measure.pointDistance(line.origin, line.end));
+            return new paths.Line(point.subtract(line.origin, delta), point.add(line.end, delta));
+        }
+
+        var intersection = path.intersection(extend(pathA, pathB), extend(pathB, pathA));
+        if (!intersection) return null;
+
+        return point.closest(near, intersection.intersectionPoints);
+    }
+
+    /**
+     * Shortest distance from a point to a line, arc or circle, or null for other path types.
+     * @private
+     */
+    function distanceToPath(p: IPoint, pathContext: IPath): number {
+
+        switch (pathContext.type) {
+            case pathType.Line:
+                var line = <IPathLine>pathContext;
+                var direction = point.subtract(line.end, line.origin);
+                var lengthSquared = direction[0] * direction[0] + direction[1] * direction[1];
+                var ratio = lengthSquared ? ((p[0] - line.origin[0]) * direction[0] + (p[1] - line.origin[1]) * direction[1]) / lengthSquared : 0;
+                return measure.pointDistance(p, point.middle(line, Math.min(Math.max(ratio, 0), 1)));
+
+            case pathType.Circle:
+                var circle = <IPathCircle>pathContext;
+                return Math.abs(measure.pointDistance(p, circle.origin) - circle.radius);
+
+            case pathType.Arc:
+                var arc = <IPathArc>pathContext;
+                if (measure.isBetweenArcAngles(angle.ofPointInDegrees(arc.origin, p), arc, false)) {
+                    return Math.abs(measure.pointDistance(p, arc.origin) - arc.radius);
+                }
+
+                var arcEnds = point.fromArc(arc);
+                return Math.min(measure.pointDistance(p, arcEnds[0]), measure.pointDistance(p, arcEnds[1]));
+        }
+
+        return null;
+    }
+
+    /**
+     * @private
+     */
+    function joinSegments(a: IOffsetSegment, b: IOffsetSegment, leftDistance: number, opts: IChainOffsetOptions): IPath[] {
+        var endA = segmentEnd(a, false);
+        var startB = segmentEnd(b, true);
+
+        if (measure.isPointEqual(endA, startB, opts.pointMatchingDistance)) return [];
+
+        var corner = b.corner;
+        var tangentA = pathTangent(a.pathContext, a.reversed, false);
+        var tangentB = pathTangent(b.pathContext, b.reversed, true);
+
+        //positive when the chain turns left
+        var turn = tangentA[0] * tangentB[1] - tangentA[1] * tangentB[0];
+
+        if (turn * leftDistance > 0) {
+
+            //the offset is on the inside of the corner, so the segments overlap
+            var intersection = path.intersection(a.pathContext, b.pathContext);
+            var trimPoint = intersection ? point.closest(corner, intersection.intersectionPoints) : extendedIntersection(a, b, corner);
+
+            //segments which are too short to meet are extended until they do
+            if (trimPoint) {
+                setSegmentEnd(a, false, trimPoint);
+                setSegmentEnd(b, true, trimPoint);
+                return [];
+            }
+
+            return [new paths.Line(endA, startB)];
+        }
+
+        //the offset is on the outside of the corner, so there is a gap
+        switch (opts.join) {
+
+            case chainJoin.Round:
+                var startAngle = angle.ofPointInDegrees(corner, endA);
+                var endAngle = angle.ofPointInDegrees(corner, startB);
+
+                //the arc around the corner is as wide as the turn
+                if (angle.noRevolutions(endAngle - startAngle) > 180) {
+                    return [new paths.Arc(corner, Math.abs(leftDistance), endAngle, startAngle)];
+                }
+                return [new paths.Arc(corner, Math.abs(leftDistance), startAngle, endAngle)];
+
+            case chainJoin.Miter:
+                var miterPoint = point.fromSlopeIntersection(
+                    new paths.Line(endA, point.add(endA, tangentA)),
+                    new paths.Line(startB, point.add(startB, tangentB))
+                );
+
+                if (miterPoint && measure.pointDistance(corner, miterPoint) <= opts.miterLimit * Math.abs(leftDistance)) {
+                    var joint: IPath[] = [];
+
+                    //lines are extended, curves get a straight extension
+                    if (a.pathContext.type === pathType.Line) {
+                        setSegmentEnd(a, false, miterPoint);
+                    } else {
+                        joint.push(new paths.Line(endA, miterPoint));
+                    }
+
+                    if (b.pathContext.type === pathType.Line) {
+                        setSegmentEnd(b, true, miterPoint);
+                    } else {
+                        joint.push(new paths.Line(miterPoint, startB));
+                    }
+
+                    return joint;
+                }
+
+                //beyond the miter limit, bevel instead
+                return [new paths.Line(endA, startB)];
+
+            default:
+                return [new paths.Line(endA, startB)];
+        }
+    }
+
+    /**
+     * Offset a chain to one side, joining the offset links at their corners.
+     *
+     * Lines and arcs are offset, including the arcs of BezierCurve models. Other path types are skipped.
+     *
+     * @param chainToOffset The chain to offset.
+     * @param distance The distance of the offset.
+     * @param options Optional options object.
+     * @returns A new model containing the paths of the offset chain, or null when an inside or outside offset is requested of a chain which is not endless. The model has no paths when the offset would come nearer to the chain than the distance, such as an inset wider than the chain.
+     */
+    export function offset(chainToOffset: IChain, distance: number, options?: IChainOffsetOptions): IModel {
+
+        var opts: IChainOffsetOptions = {
+            join: chainJoin.Miter,
+            miterLimit: 4,
+            side: chainSide.Left,
+            pointMatchingDistance: .005
+        };
+
+        extendObject(opts, options);
+
+        var leftDistance = distance;
+
+        switch (opts.side) {
+            case chainSide.Right:
+                leftDistance = -distance;
+                break;
+
+            case chainSide.Inside:
+            case chainSide.Outside:
+                //only endless chains have an inside and an outside
+                if (!chainToOffset.endless) return null;
+
+                //the inside of a counter-clockwise chain is on its left
+                var counterClockwise = !measure.isChainClockwise(chainToOffset);
+                if (counterClockwise !== (opts.side === chainSide.Inside)) {
+                    leftDistance = -distance;
+                }
+                break;
+        }
+
+        var result: IModel = { paths: {} };
+        var count = 0;
+
+        function addPath(pathToAdd: IPath) {
+            count++;
+            result.paths[pathToAdd.type + '_' + count] = pathToAdd;
+        }
+
+        //a single full circle is offset concentrically
+        var firstPath = chainToOffset.links[0].walkedPath.pathContext;
+        if (chainToOffset.links.length === 1 && isFullCircle(firstPath)) {
+            var circle = <IPathCircle>path.moveRelative(path.clone(firstPath), chainToOffset.links[0].walkedPath.offset);
+            var offsetCircle = offsetPath(new paths.Circle(circle.origin, circle.radius), false, leftDistance);
+            if (offsetCircle) {
+                addPath(offsetCircle);
+            }
+            return result;
+        }
+
+        var segments: IOffsetSegment[] = [];
+        var chainPaths: IPath[] = [];
+
+        chainToOffset.links.forEach(function (link: IChainLink) {
+            var pathContext = path.moveRelative(path.clone(link.walkedPath.pathContext), link.walkedPath.offset);
+            chainPaths.push(pathContext);
+
+            var offsetted = offsetPath(pathContext, link.reversed, leftDistance);
+
+            if (offsetted) {
+                segments.push({
+                    pathContext: offsetted,
+                    reversed: link.reversed,
+                    corner: link.endPoints[link.reversed ? 1 : 0]
+                });
+            }
+        });
+
+        var joints: IPath[][] = [];
+
+        for (var i = 0; i < segments.length; i++) {
+            var next = i + 1;
+
+            if (next === segments.length) {
+                if (!chainToOffset.endless) break;
+                next = 0;
+            }
+
+            joints[i] = joinSegments(segments[i], segments[next], leftDistance, opts);
+        }
+
+        //the offset chain in the direction of travel, to measure it
+        var offsetChain: IChain = { links: [], endless: chainToOffset.endless };
+        var nearPoints: IPoint[] = [];
+
+        function addLink(pathContext: IPath, reversed?: boolean) {
+            var links = offsetChain.links;
+            var endPoints = point.fromPathEnds(pathContext);
+
+            //joints travel from the end of the previous path
+            if (reversed === undefined) {
+                var previous = links[links.length - 1];
+                var start = previous.endPoints[previous.reversed ? 0 : 1];
+                reversed = measure.pointDistance(start, endPoints[1]) < measure.pointDistance(start, endPoints[0]);
+            }
+
+            links.push({ walkedPath: <IWalkPath>{ pathContext: pathContext, offset: point.zero() }, reversed: reversed, endPoints: endPoints });
+            nearPoints.push.apply(nearPoints, endPoints);
+        }
+
+        segments.forEach(function (segment: IOffsetSegment, i: number) {
+            addPath(segment.pathContext);
+            addLink(segment.pathContext, segment.reversed);
+
+            //the middle of a bevel is nearer to its corner, but the middle of a segment is not
+            nearPoints.push(point.middle(segment.pathContext));
+
+            if (joints[i]) {
+                joints[i].forEach(function (joint: IPath) {
+                    addPath(joint);
+                    addLink(joint);
+                });
+            }
+        });
+
+        var empty: IModel = { paths: {} };
+
+        //an inset wider than the chain turns it inside out
+        if (chainToOffset.endless) {
+            var area = measure.chainArea(chainToOffset);
+
+            if ((area > 0) === (leftDistance > 0)) {
+                var offsetArea = measure.chainArea(offsetChain);
+
+                if (!(offsetArea * area > 0 && Math.abs(offsetArea) < Math.abs(area))) return empty;
+            }
+        }
+
+        //no point of the offset may be nearer to the chain than the distance, or it would cut into the part
+        var tooNear = nearPoints.some(function (p: IPoint) {
+            return chainPaths.some(function (pathContext: IPath) {
+                var d = distanceToPath(p, pathContext);
+                return d !== null && d < Math.abs(distance) - opts.pointMatchingDistance;
+            });
+        });
+
+        if (tooNear) return empty;
+
+        return result;
+    }
+
+    /**
+     * Kinds of joins at the outside corners of an offset chain.
+     */
+    export var chainJoin = {
+        Miter: 'miter',
+        Round: 'round',
+        Bevel: 'bevel'
+    };
+
+    /**
+     * Sides of a chain to offset to. Left and right are relative to the direction of the chain, inside and outside are for endless chains.
+     */
+    export var chainSide = {
+        Left: 'left',
+        Right: 'right',
+        Inside: 'inside',
+        Outside: 'outside'
+    };
+
+    /**
+     * Options to pass to chain.offset.
+     */
+    export interface IChainOffsetOptions extends IPointMatchOptions {
+
+        /**
+         * Optional kind of join at outside corners, one of the chainJoin values. Default is miter.
+         */
+        join?: string;
+
+        /**
+         * Optional maximum distance of a miter point from its corner, as a multiple of the offset distance. Beyond this, the corner is beveled. Default is 4.
+         */
+        miterLimit?: number;
+
+        /**
+         * Optional side of the chain, one of the chainSide values. Default is left.
+         */
+        side?: string;
+    }
+}
@@ -14,6 +14,12 @@
         [type: string]: IPathDirectionalFunction;
     }
 
+    /**
+     * Script of a solid with no polygons.
+     * @private
+     */
+    var emptySolid = 'new CSG()';
+
     /**
      * @private
      */
@@ -129,6 +135,131 @@
         return head + tail + '.close().innerToCAG()';
     }
 
+    /**
+     * Flat shape of loops, where loops within loops are holes.
+     * @private
+     */
+    function loopsToCag(loops: IModel, facetSize: number): string {
+        var result: string[] = [];
+        var depth = 0;
+        var depthModel: IModel;
+
+        while (depthModel = loops.models[depth]) {
+            var union = '';
+            for (var modelId in depthModel.models) {
+                var subModel = depthModel.models[modelId];
+                union += wrap('.union', pathsToOpenJsCad(subModel, facetSize), union);
+            }
+            var operator = (depth % 2 == 0) ? '.union' : '.subtract';
+            result.push(wrap(operator, union, result.length));
+            depth++;
+        }
+
+        return result.join('');
+    }
+
+    /**
+     * @private
+     */
+    function loopsToOpenJsCad(loops: IModel, extrusion: number, facetSize: number): string {
+        var extrudeOptions: CAG.CAG_extrude_options = { offset: [0, 0, extrusion] };
+        return loopsToCag(loops, facetSize) + wrap('.extrude', JSON.stringify(extrudeOptions), true);
+    }
+
+    /**
+     * @private
+     */
+    function revolveToOpenJsCad(modelToExport: IModel, opts: IOpenJsCadOptions): string {
+        var revolveOptions: IOpenJsCadRevolveOptions = {
+            axis: new paths.Line([0, 0], [0, 1]),
+            angle: 360
+        };
+
+        extendObject(revolveOptions, opts.revolve);
+
+        var axis = revolveOptions.axis;
+        var rotation = 90 - angle.ofLineInDegrees(axis);
+
+        //OpenJsCad revolves around the Y axis, so put the profile's axis there
+        var profile = model.moveRelative(cloneObject(modelToExport), point.scale(axis.origin, -1));
+        model.rotate(profile, rotation, [0, 0]);
+
+        var extents = measure.modelExtents(profile);
+        if (!extents) return emptySolid;
+
+        //the profile must be on the positive side of the axis
+        if (-extents.low[0] > extents.high[0]) {
+            profile = model.mirror(profile, true, false);
+            extents = measure.modelExtents(profile);
+        }
+
+        var loops: IModel;
+
+        //curves are approximated with arcs
+        useBezierArcs(profile, function () {
+            loops = model.findLoops(profile, { pointMatchingDistance: opts.pointMatchingDistance });
+        });
+
+        if (!loops.models) return emptySolid;
+
+        //loops within loops are holes, such as the bore of a tube
+        var result = loopsToCag(loops, opts.facetSize);
+
+        var rotateExtrudeOptions: { angle: number; resolution?: number; } = { angle: revolveOptions.angle };
+
+        if (opts.facetSize) {
+            //facets along the path of the point farthest from the axis
+            var sweepLength = 2 * Math.PI * extents.high[0] * revolveOptions.angle / 360;
+            rotateExtrudeOptions.resolution = Math.max(3, Math.ceil(sweepLength / opts.facetSize));
+        }
+
+        result += wrap('.rotateExtrude', JSON.stringify(rotateExtrudeOptions), true);
+
+        return result;
+    }
+
+    /**
+     * @private
+     */
+    function layersToOpenJsCad(modelToExport: IModel, loopsByLayer: IModel, opts: IOpenJsCadOptions): string {
+        var unions: string[] = [];
+        var subtracts: string[] = [];
+
+        for (var layer in loopsByLayer.models) {
+            if (!isLayerVisible(modelToExport, layer)) continue;
+
+            var layerOptions: IOpenJsCadLayerOptions = {
+                extrusion: opts.extrusion,
+                z: 0
+            };
+
+            extendObject(layerOptions, opts.layerOptions[layer]);
+
+            var solid = loopsToOpenJsCad(loopsByLayer.models[layer], layerOptions.extrusion, opts.facetSize);
+
+            if (layerOptions.z) {
+                solid += wrap('.translate', JSON.stringify([0, 0, layerOptions.z]), true);
+            }
+
+            (layerOptions.subtract ? subtracts : unions).push(solid);
+        }
+
+        //subtracted layers need a solid to be subtracted from
+        if (!unions.length) return emptySolid;
+
+        var result = unions.shift();
+
+        unions.forEach(function (solid: string) {
+            result += wrap('.union', solid, true);
+        });
+
+        subtracts.forEach(function (solid: string) {
+            result += wrap('.subtract', solid, true);
+        });
+
+        return result;
+    }
+
     export function toOpenJsCad(modelToExport: IModel, options?: IOpenJsCadOptions): string;
     export function toOpenJsCad(pathsToExport: IPath[], options?: IOpenJsCadOptions): string;
     export function toOpenJsCad(pathToExport: IPath, options?: IOpenJsCadOptions): string;
@@ -146,8 +277,6 @@
         if (!modelToExport) return '';
 
         var all = '';
-        var depth = 0;
-        var depthModel: IModel;
 
         var opts: IOpenJsCadOptions = {
             extrusion: 1,
@@ -168,26 +297,28 @@
             all = exportFromOptionsMap(modelToExport, opts.modelMap);
         }
 
+        if (!all && opts.revolve) {
+            all = 'return ' + revolveToOpenJsCad(modelToExport, opts);
+        }
+
         if (!all) {
 
-            var result: string[] = [];
-            var loops = model.findLoops(modelToExport, opts);
-
-            while (depthModel = loops.models[depth]) {
-                var union = '';
-                for (var modelId in depthModel.models) {
-                    var subModel = depthModel.models[modelId];
-                    union += wrap('.union', pathsToOpenJsCad(subModel, opts.facetSize), union);
-                }
-                var operator = (depth % 2 == 0) ? '.union' : '.subtract';
-                result.push(wrap(operator, union, result.length));
-                depth++;
-            }
+            var loops: IModel;
+            var loopsOptions: IFindLoopsOptions = {};
+
+            extendObject(loopsOptions, opts);
+            loopsOptions.byLayers = !!opts.layerOptions;
 
-            var extrudeOptions: CAG.CAG_extrude_options = { offset: [0, 0, opts.extrusion] };
-            result.push(wrap('.extrude', JSON.stringify(extrudeOptions), true));
+            //curves are approximated with arcs
+            useBezierArcs(modelToExport, function () {
+                loops = model.findLoops(modelToExport, loopsOptions);
+            });
 
-            all = 'return ' + result.join('');
+            if (opts.layerOptions) {
+                all = 'return ' + layersToOpenJsCad(modelToExport, loops, opts);
+            } else {
+                all = 'return ' + loopsToOpenJsCad(loops, opts.extrusion, opts.facetSize);
+            }
         }
 
         return 'function ' + opts.functionName + '(){' + all + ';}';
@@ -234,13 +365,22 @@
     export function toSTL(modelToExport: IModel, options: IOpenJsCadOptions = {}): string {
         if (!modelToExport) return '';
 
+        var csg = toCSG(modelToExport, options);
+
+        return csg.toStlString();
+    }
+
+    /**
+     * Executes the OpenJsCad script of a model.
+     * @private
+     */
+    export function toCSG(modelToExport: IModel, options: IOpenJsCadOptions = {}): CSG {
         var script = toOpenJsCad(modelToExport, options);
         script += 'return ' + options.functionName + '();';
 
         var f = new Function(script);
-        var csg = <CSG>f();
 
-        return csg.toStlString();
+        return <CSG>f();
     }
 
     /**
@@ -267,10 +407,57 @@
          * Optional options applied to specific first-child models by model id.
          */
         modelMap?: IOpenJsCadOptionsMap;
+
+        /**
+         * Optional options applied to loops on specific layers. When present, loops are found separately on each layer.
+         */
+        layerOptions?: { [layer: string]: IOpenJsCadLayerOptions };
+
+        /**
+         * Optional options to revolve the endless chains of the model around an axis, instead of extruding them. The axis becomes the Z axis of the solid.
+         */
+        revolve?: IOpenJsCadRevolveOptions;
     }
 
     export interface IOpenJsCadOptionsMap {
         [modelId: string]: IOpenJsCadOptions;
     }
+
+    /**
+     * OpenJsCad export options for a layer.
+     */
+    export interface IOpenJsCadLayerOptions {
+
+        /**
+         * Optional depth of 3D extrusion of the layer. Default is the extrusion of the whole model.
+         */
+        extrusion?: number;
+
+        /**
+         * Optional height at which the extrusion of the layer begins.
+         */
+        z?: number;
+
+        /**
+         * Flag to subtract the extrusion of the layer from the extrusions of the other layers, e.g. for engraving.
+         */
+        subtract?: boolean;
+    }
+
+    /**
+     * OpenJsCad export options to revolve a profile, e.g. for a turned part.
+     */
+    export interface IOpenJsCadRevolveOptions {
+
+        /**
+         * Optional axis of revolution, the profile should be on one side of it. Default is the Y axis.
+         */
+        axis?: IPathLine;
+
+        /**
+         * Optional angle of the sweep in degrees. Default is 360.
+         */
+        angle?: number;
+    }
 }
  
\ No newline at end of file
@@ -0,0 +1,242 @@
+namespace MakerJs.exporter {
+
+    /**
+     * @private
+     */
+    interface IOpenSCADPointsFunction {
+        (pathValue: IPath, pathDirectional: IPathDirectional, points: IPoint[]): void;
+    }
+
+    /**
+     * @private
+     */
+    interface IOpenSCADPointsFunctionMap {
+        [type: string]: IOpenSCADPointsFunction;
+    }
+
+    /**
+     * @private
+     */
+    function indent(lines: string[]): string[] {
+        return lines.map(function (line: string) { return '  ' + line; });
+    }
+
+    /**
+     * @private
+     */
+    function block(statement: string, children: string[]): string[] {
+        return [statement + ' {'].concat(indent(children), ['}']);
+    }
+
+    /**
+     * @private
+     */
+    function loopToPoints(loop: IModel, opts: IOpenSCADOptions): IPoint[] {
+        var points: IPoint[] = [];
+
+        function facetCount(radius: number, span: number) {
+            //default is the resolution of OpenJsCad
+            var circleFacets = opts.fn || (opts.facetSize ? 2 * Math.PI * radius / opts.facetSize : 32);
+            return Math.max(1, Math.ceil(circleFacets * span / 360));
+        }
+
+        function arcPoints(startAngle: number, span: number, radius: number, reversed: boolean, pointFromAngle: (angleInDegrees: number) => IPoint) {
+            var facets = facetCount(radius, span);
+
+            //the end point is the start of the next path in the loop
+            for (var i = 0; i < facets; i++) {
+                var ratio = reversed ? 1 - i / facets : i / facets;
+                points.push(pointFromAngle(startAngle + span * ratio));
+            }
+        }
+
+        var map: IOpenSCADPointsFunctionMap = {};
+
+        map[pathType.Line] = function (line: IPathLine, dirPath: IPathDirectional) {
+            points.push(dirPath.endPoints[dirPath.reversed ? 1 : 0]);
+        };
+
+        map[pathType.Circle] = function (circle: IPathCircle, dirPath: IPathDirectional) {
+            arcPoints(0, 360, circle.radius, false, function (a: number) { return point.fromAngleOnCircle(a, circle); });
+        };
+
+        map[pathType.Arc] = function (arc: IPathArc, dirPath: IPathDirectional) {
+            var span = angle.ofArcSpan(arc);
+            arcPoints(arc.startAngle, span, arc.radius, span < 360 && dirPath.reversed, function (a: number) { return point.fromAngleOnCircle(a, arc); });
+        };
+
+        map[pathType.Ellipse] = function (ellipse: IPathEllipse, dirPath: IPathDirectional) {
+            arcPoints(0, 360, Math.max(ellipse.radiusX, ellipse.radiusY), false, function (a: number) { return point.fromAngleOnEllipse(a, ellipse); });
+        };
+
+        map[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc, dirPath: IPathDirectional) {
+            var span = angle.ofArcSpan(ellipticArc);
+            arcPoints(ellipticArc.startAngle, span, Math.max(ellipticArc.radiusX, ellipticArc.radiusY), span < 360 && dirPath.reversed, function (a: number) { return point.fromAngleOnEllipse(a, ellipticArc); });
+        };
+
+        for (var pathId in loop.paths) {
+            var pathContext = loop.paths[pathId];
+            var fn = map[pathContext.type];
+
+            if (fn) {
+                fn(pathContext, <IPathDirectional>pathContext, points);
+            }
+        }
+
+        return points.map(function (p: IPoint) { return point.rounded(p, opts.accuracy); });
+    }
+
+    /**
+     * @private
+     */
+    function loopsToOpenSCAD(modelToExport: IModel, opts: IOpenSCADOptions): string[] {
+        var loops: IModel;
+
+        //curves are approximated with arcs
+        useBezierArcs(modelToExport, function () {
+            loops = model.findLoops(modelToExport, opts);
+        });
+
+        var result: string[] = null;
+        var depth = 0;
+        var depthModel: IModel;
+
+        while (depthModel = loops.models[depth]) {
+            var points: IPoint[] = [];
+            var paths: number[][] = [];
+
+            //loops at the same depth are not inside of each other, so they are one polygon
+            for (var modelId in depthModel.models) {
+                var loopPoints = loopToPoints(depthModel.models[modelId], opts);
+                var indexes = loopPoints.map(function (p: IPoint, i: number) { return points.length + i; });
+
+                points.push.apply(points, loopPoints);
+                paths.push(indexes);
+            }
+
+            var polygon = ['polygon(points = ' + JSON.stringify(points) + ', paths = ' + JSON.stringify(paths) + ');'];
+
+            if (!result) {
+                result = polygon;
+            } else {
+                //same as OpenJsCad, odd depths are holes
+                result = block((depth % 2 == 0) ? 'union()' : 'difference()', result.concat(polygon));
+            }
+
+            depth++;
+        }
+
+        if (!result) return [];
+
+        if (opts.extrusion) {
+            result = block('linear_extrude(height = ' + opts.extrusion + ')', result);
+        }
+
+        return result;
+    }
+
+    /**
+     * @private
+     */
+    function modelMapToOpenSCAD(modelToExport: IModel, optionsMap: IOpenSCADOptionsMap, accuracy: number): string[] {
+
+        if (!modelToExport.models) return;
+
+        var result: string[] = [];
+
+        for (var key in optionsMap) {
+            var childModel = modelToExport.models[key];
+
+            if (childModel) {
+                var childOptions: IOpenSCADOptions = {
+                    extrusion: 1,
+                    pointMatchingDistance: .005,
+                    accuracy: accuracy
+                };
+
+                extendObject(childOptions, optionsMap[key]);
+
+                result.push.apply(result, loopsToOpenSCAD(childModel, childOptions));
+            }
+        }
+
+        if (!result.length) return;
+
+        return block('union()', result);
+    }
+
+    /**
+     * Creates a string of OpenSCAD code, of polygons which are optionally extruded.
+     *
+     * @param modelToExport Model object to export.
+     * @param options Export options object. An extrusion of 0 creates 2D polygons only.
+     * @returns String of OpenSCAD code.
+     */
+    export function toOpenSCAD(modelToExport: IModel, options?: IOpenSCADOptions): string {
+        if (!modelToExport) return '';
+
+        var opts: IOpenSCADOptions = {
+            extrusion: 1,
+            pointMatchingDistance: .005,
+            accuracy: .001
+        };
+
+        extendObject(opts, options);
+
+        if (modelToExport.exporterOptions) {
+            extendObject(opts, modelToExport.exporterOptions['toOpenSCAD']);
+        }
+
+        //try to get the unit system from the model
+        if (!opts.units) {
+            opts.units = modelToExport.units;
+        }
+
+        //pass options back into calling object
+        extendObject(options, opts);
+
+        var header = ['// Maker.js'];
+
+        //OpenSCAD has no unit system, so it is noted in a comment
+        if (opts.units) {
+            header.push('// units: ' + opts.units);
+        }
+
+        var statements: string[];
+
+        if (opts.modelMap) {
+            statements = modelMapToOpenSCAD(modelToExport, opts.modelMap, opts.accuracy);
+        }
+
+        if (!statements) {
+            statements = loopsToOpenSCAD(modelToExport, opts);
+        }
+
+        return header.concat(statements).join('\n') + '\n';
+    }
+
+    /**
+     * OpenSCAD export options.
+     */
+    export interface IOpenSCADOptions extends IOpenJsCadOptions, IExportOptions {
+
+        /**
+         * Optional number of facets of a full circle, the same as $fn in OpenSCAD. This takes precedence over facetSize.
+         */
+        fn?: number;
+
+        /**
+         * Optional exemplar of number of decimal places.
+         */
+        accuracy?: number;
+
+        /**
+         * Optional options applied to specific first-child models by model id.
+         */
+        modelMap?: IOpenSCADOptionsMap;
+    }
+
+    export interface IOpenSCADOptionsMap {
+        [modelId: string]: IOpenSCADOptions;
+    }
+}
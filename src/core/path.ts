@@ -39,6 +39,21 @@ namespace MakerJs.path {
                 var line = <IPathLine>pathToClone;
                 result = new paths.Line(point.clone(line.origin), point.clone(line.end));
                 break;
+
+            case pathType.Ellipse:
+                var ellipse = <IPathEllipse>pathToClone;
+                result = new paths.Ellipse(point.clone(ellipse.origin), ellipse.radiusX, ellipse.radiusY, ellipse.angleOfRotation);
+                break;
+
+            case pathType.EllipticArc:
+                var ellipticArc = <IPathEllipticArc>pathToClone;
+                result = new paths.EllipticArc(point.clone(ellipticArc.origin), ellipticArc.radiusX, ellipticArc.radiusY, ellipticArc.startAngle, ellipticArc.endAngle, ellipticArc.angleOfRotation);
+                break;
+
+            case pathType.BezierSeed:
+                var seed = <IPathBezierSeed>pathToClone;
+                result = new paths.BezierSeed([seed.origin].concat(seed.controls, [seed.end]).map(point.clone));
+                break;
         }
 
         copyLayer(pathToClone, result);
@@ -46,6 +61,60 @@ namespace MakerJs.path {
         return result;
     }
 
+    /**
+     * Apply a linear transformation to an ellipse or elliptic arc, and re-derive its radii, rotation and parametric angles.
+     * 
+     * @private
+     * @param ellipse The ellipse or elliptic arc to transform.
+     * @param origin The new origin of the result.
+     * @param m The transformation matrix as [a, b, c, d], mapping [x, y] to [a * x + c * y, b * x + d * y].
+     */
+    function transformEllipse(ellipse: IPathEllipse, origin: IPoint, m: number[]): IPathEllipse {
+        var rotation = angle.toRadians(ellipse.angleOfRotation || 0);
+        var cos = Math.cos(rotation);
+        var sin = Math.sin(rotation);
+        var rx = ellipse.radiusX;
+        var ry = ellipse.radiusY;
+
+        //combined matrix of the transformation, rotation and radii
+        var m00 = (m[0] * cos + m[2] * sin) * rx;
+        var m10 = (m[1] * cos + m[3] * sin) * rx;
+        var m01 = (m[2] * cos - m[0] * sin) * ry;
+        var m11 = (m[3] * cos - m[1] * sin) * ry;
+
+        //singular value decomposition, as rotation * scale * rotation
+        var e = (m00 + m11) / 2;
+        var f = (m00 - m11) / 2;
+        var g = (m10 + m01) / 2;
+        var h = (m10 - m01) / 2;
+        var q = Math.sqrt(e * e + h * h);
+        var r = Math.sqrt(f * f + g * g);
+        var a1 = Math.atan2(g, f);
+        var a2 = Math.atan2(h, e);
+        var scaleX = q + r;
+        var scaleY = q - r;
+        var shift = angle.toDegrees((a2 - a1) / 2);
+
+        //a negative scale reverses the direction of the parametric angle
+        var flip = scaleY < 0;
+
+        function fixAngle(a: number) {
+            return angle.noRevolutions(flip ? -(a + shift) : a + shift);
+        }
+
+        var angleOfRotation = angle.noRevolutions(angle.toDegrees((a2 + a1) / 2));
+
+        if (ellipse.type === pathType.EllipticArc) {
+            var ellipticArc = <IPathEllipticArc>ellipse;
+            var startAngle = fixAngle(ellipticArc.startAngle);
+            var endAngle = fixAngle(angle.ofArcEnd(ellipticArc));
+
+            return new paths.EllipticArc(origin, scaleX, Math.abs(scaleY), flip ? endAngle : startAngle, flip ? startAngle : endAngle, angleOfRotation);
+        }
+
+        return new paths.Ellipse(origin, scaleX, Math.abs(scaleY), angleOfRotation);
+    }
+
     /**
      * @private
      */
@@ -92,6 +161,12 @@ namespace MakerJs.path {
         return mirrored;
     };
 
+    mirrorMap[pathType.Ellipse] = function (ellipse: IPathEllipse, origin: IPoint, mirrorX: boolean, mirrorY: boolean) {
+        return transformEllipse(ellipse, origin, [mirrorX ? -1 : 1, 0, 0, mirrorY ? -1 : 1]);
+    };
+
+    mirrorMap[pathType.EllipticArc] = mirrorMap[pathType.Ellipse];
+
     /**
      * Create a clone of a path, mirrored on either or both x and y axes.
      * 
@@ -127,6 +202,12 @@ namespace MakerJs.path {
         line.end = point.add(origin, delta);
     };
 
+    moveMap[pathType.BezierSeed] = function (seed: IPathBezierSeed, origin: IPoint) {
+        var delta = point.subtract(origin, seed.origin);
+        seed.end = point.add(seed.end, delta);
+        seed.controls = seed.controls.map(function (c) { return point.add(c, delta); });
+    };
+
     /**
      * Move a path to an absolute point.
      * 
@@ -222,6 +303,12 @@ namespace MakerJs.path {
         arc.endAngle = angle.noRevolutions(arc.endAngle + angleInDegrees);
     }
 
+    rotateMap[pathType.Ellipse] = function (ellipse: IPathEllipse, angleInDegrees: number, rotationOrigin: IPoint) {
+        ellipse.angleOfRotation = angle.noRevolutions((ellipse.angleOfRotation || 0) + angleInDegrees);
+    }
+
+    rotateMap[pathType.EllipticArc] = rotateMap[pathType.Ellipse];
+
     rotateMap[pathType.BezierSeed] = function (seed: IPathBezierSeed, angleInDegrees: number, rotationOrigin: IPoint) {
         rotateMap[pathType.Line](seed, angleInDegrees, rotationOrigin);
         seed.controls = seed.controls.map(function (c) { return point.rotate(c, angleInDegrees, rotationOrigin); });
@@ -268,6 +355,13 @@ namespace MakerJs.path {
 
     scaleMap[pathType.Arc] = scaleMap[pathType.Circle];
 
+    scaleMap[pathType.Ellipse] = function (ellipse: IPathEllipse, scaleValue: number) {
+        ellipse.radiusX *= scaleValue;
+        ellipse.radiusY *= scaleValue;
+    }
+
+    scaleMap[pathType.EllipticArc] = scaleMap[pathType.Ellipse];
+
     /**
      * Scale a path.
      * 
@@ -291,18 +385,24 @@ namespace MakerJs.path {
     /**
      * @private
      */
-    var distortMap: { [pathType: string]: (pathValue: IPath, scaleX: number, scaleY: number) => IModel | IPath } = {};
+    var distortMap: { [pathType: string]: (pathValue: IPath, scaleX: number, scaleY: number) => IPath } = {};
 
     distortMap[pathType.Arc] = function (arc: IPathArc, scaleX: number, scaleY: number) {
-        return new models.EllipticArc(arc, scaleX, scaleY);
+        var ellipticArc = new paths.EllipticArc(arc.origin, arc.radius, arc.radius, arc.startAngle, arc.endAngle);
+        return distortMap[pathType.EllipticArc](ellipticArc, scaleX, scaleY);
     };
 
     distortMap[pathType.Circle] = function (circle: IPathCircle, scaleX: number, scaleY: number) {
-        var ellipse = new models.Ellipse(circle.radius * scaleX, circle.radius * scaleY);
-        ellipse.origin = point.distort(circle.origin, scaleX, scaleY);
-        return ellipse
+        var ellipse = new paths.Ellipse(circle.origin, circle.radius, circle.radius);
+        return distortMap[pathType.Ellipse](ellipse, scaleX, scaleY);
+    };
+
+    distortMap[pathType.Ellipse] = function (ellipse: IPathEllipse, scaleX: number, scaleY: number) {
+        return transformEllipse(ellipse, point.distort(ellipse.origin, scaleX, scaleY), [scaleX, 0, 0, scaleY]);
     };
 
+    distortMap[pathType.EllipticArc] = distortMap[pathType.Ellipse];
+
     distortMap[pathType.Line] = function (line: IPathLine, scaleX: number, scaleY: number) {
         return new paths.Line([line.origin, line.end].map(function (p) { return point.distort(p, scaleX, scaleY); }));
     };
@@ -323,14 +423,18 @@ namespace MakerJs.path {
      * @param pathToDistort The path to distort.
      * @param scaleX The amount of x scaling.
      * @param scaleY The amount of y scaling.
-     * @returns A new IModel (for circles and arcs) or IPath (for lines and bezier seeds).
+     * @returns A new IPath. Circles and arcs become ellipses and elliptic arcs.
      */
-    export function distort(pathToDistort: IPath, scaleX: number, scaleY: number): IModel | IPath {
+    export function distort(pathToDistort: IPath, scaleX: number, scaleY: number): IPath {
         if (!pathToDistort || (scaleX === 1 && scaleY === 1)) return null;
 
         var fn = distortMap[pathToDistort.type];
         if (fn) {
-            return fn(pathToDistort, scaleX, scaleY);
+            var distorted = fn(pathToDistort, scaleX, scaleY);
+
+            copyLayer(pathToDistort, distorted);
+
+            return distorted;
         }
 
         return null;
@@ -381,4 +485,193 @@ namespace MakerJs.path {
         return p;
     }
 
+    /**
+     * Parameter of a curve at a distance along it, found from the speed of the curve at each parameter.
+     * @private
+     */
+    function parameterAtDistance(speed: (t: number) => number, start: number, end: number, distance: number): number {
+        var n = 64;
+        var h = (end - start) / n;
+        var travelled = 0;
+
+        //Simpson's rule
+        function along(a: number, b: number) {
+            return (b - a) / 6 * (speed(a) + 4 * speed((a + b) / 2) + speed(b));
+        }
+
+        for (var i = 0; i < n; i++) {
+            var a = start + i * h;
+            var step = along(a, a + h);
+
+            if (travelled + step < distance && i < n - 1) {
+                travelled += step;
+                continue;
+            }
+
+            //Newton's method within the step which reaches the distance
+            var t = step ? a + h * (distance - travelled) / step : a;
+
+            for (var j = 0; j < 4; j++) {
+                var s = speed(t);
+                if (!s) break;
+                t -= (travelled + along(a, t) - distance) / s;
+            }
+
+            return Math.min(Math.max(t, start), end);
+        }
+
+        return start;
+    }
+
+    /**
+     * Angle on an ellipse, in degrees, at a distance along it from a start angle.
+     * @private
+     */
+    function ellipseAngleAtDistance(ellipse: IPathEllipse, startAngle: number, span: number, distance: number): number {
+
+        function speed(t: number) {
+            return Math.sqrt(Math.pow(ellipse.radiusX * Math.sin(t), 2) + Math.pow(ellipse.radiusY * Math.cos(t), 2));
+        }
+
+        var start = startAngle * Math.PI / 180;
+        return angle.toDegrees(parameterAtDistance(speed, start, start + span * Math.PI / 180, distance));
+    }
+
+    /**
+     * @private
+     */
+    function ellipseTangent(ellipse: IPathEllipse, angleInDegrees: number): number {
+        var a = angleInDegrees * Math.PI / 180;
+        return angle.ofPointInDegrees(point.zero(), [-ellipse.radiusX * Math.sin(a), ellipse.radiusY * Math.cos(a)]) + (ellipse.angleOfRotation || 0);
+    }
+
+    /**
+     * @private
+     */
+    function bezierParameterAtDistance(seed: IPathBezierSeed, distance: number): number {
+
+        function speed(t: number) {
+            return measure.pointDistance(point.zero(), models.BezierCurve.computeDerivative(seed, t));
+        }
+
+        return parameterAtDistance(speed, 0, 1, distance);
+    }
+
+    /**
+     * @private
+     */
+    var pointAtDistanceMap: { [pathType: string]: (pathContext: IPath, distance: number) => IPoint } = {};
+
+    pointAtDistanceMap[pathType.Line] = function (line: IPathLine, distance: number) {
+        var length = measure.pointDistance(line.origin, line.end);
+        return length ? point.middle(line, distance / length) : point.clone(line.origin);
+    }
+
+    pointAtDistanceMap[pathType.Circle] = function (circle: IPathCircle, distance: number) {
+        return point.fromAngleOnCircle(angle.toDegrees(distance / circle.radius), circle);
+    }
+
+    pointAtDistanceMap[pathType.Arc] = function (arc: IPathArc, distance: number) {
+        return point.fromAngleOnCircle(arc.startAngle + angle.toDegrees(distance / arc.radius), arc);
+    }
+
+    pointAtDistanceMap[pathType.Ellipse] = function (ellipse: IPathEllipse, distance: number) {
+        return point.fromAngleOnEllipse(ellipseAngleAtDistance(ellipse, 0, 360, distance), ellipse);
+    }
+
+    pointAtDistanceMap[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc, distance: number) {
+        return point.fromAngleOnEllipse(ellipseAngleAtDistance(ellipticArc, ellipticArc.startAngle, angle.ofArcSpan(ellipticArc), distance), ellipticArc);
+    }
+
+    pointAtDistanceMap[pathType.BezierSeed] = function (seed: IPathBezierSeed, distance: number) {
+        return models.BezierCurve.computePoint(seed, bezierParameterAtDistance(seed, distance));
+    }
+
+    /**
+     * @private
+     */
+    var tangentAtDistanceMap: { [pathType: string]: (pathContext: IPath, distance: number) => number } = {};
+
+    tangentAtDistanceMap[pathType.Line] = function (line: IPathLine, distance: number) {
+
+        //a line of no length has no direction
+        if (!measure.pointDistance(line.origin, line.end)) return null;
+
+        return angle.ofLineInDegrees(line);
+    }
+
+    tangentAtDistanceMap[pathType.Circle] = function (circle: IPathCircle, distance: number) {
+        return angle.toDegrees(distance / circle.radius) + 90;
+    }
+
+    tangentAtDistanceMap[pathType.Arc] = function (arc: IPathArc, distance: number) {
+        return arc.startAngle + angle.toDegrees(distance / arc.radius) + 90;
+    }
+
+    tangentAtDistanceMap[pathType.Ellipse] = function (ellipse: IPathEllipse, distance: number) {
+        return ellipseTangent(ellipse, ellipseAngleAtDistance(ellipse, 0, 360, distance));
+    }
+
+    tangentAtDistanceMap[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc, distance: number) {
+        return ellipseTangent(ellipticArc, ellipseAngleAtDistance(ellipticArc, ellipticArc.startAngle, angle.ofArcSpan(ellipticArc), distance));
+    }
+
+    tangentAtDistanceMap[pathType.BezierSeed] = function (seed: IPathBezierSeed, distance: number) {
+        var derivative = models.BezierCurve.computeDerivative(seed, bezierParameterAtDistance(seed, distance));
+        return angle.ofPointInDegrees(point.zero(), derivative);
+    }
+
+    /**
+     * Distance from the start of a path, or null if beyond its ends.
+     * @private
+     */
+    function distanceFromStart(pathContext: IPath, distance: number, reversed: boolean): number {
+        var length = measure.pathLength(pathContext);
+
+        if (round(distance) < 0 || round(distance - length) > 0) return null;
+
+        distance = Math.min(Math.max(distance, 0), length);
+
+        return reversed ? length - distance : distance;
+    }
+
+    /**
+     * Find the point at a distance along a path, from the origin of a line or bezier seed, the start angle of an arc or elliptic arc, or 0 degrees of a circle or ellipse.
+     * 
+     * @param pathContext The path to measure along.
+     * @param distance Distance along the path.
+     * @param reversed Optional flag to measure from the other end of the path.
+     * @returns Point on the path, or null if the distance is beyond the ends of the path.
+     */
+    export function pointAtDistance(pathContext: IPath, distance: number, reversed?: boolean): IPoint {
+        var fn = pointAtDistanceMap[pathContext.type];
+        if (!fn) return null;
+
+        var d = distanceFromStart(pathContext, distance, reversed);
+        if (d === null) return null;
+
+        return fn(pathContext, d);
+    }
+
+    /**
+     * Find the angle of the direction of travel at a distance along a path. Arcs, circles and ellipses travel counter-clockwise, unless reversed.
+     * 
+     * @param pathContext The path to measure along.
+     * @param distance Distance along the path.
+     * @param reversed Optional flag to measure from, and travel towards, the other end of the path.
+     * @returns Angle of the tangent in degrees, or null if the distance is beyond the ends of the path, or the path is a line of no length.
+     */
+    export function tangentAtDistance(pathContext: IPath, distance: number, reversed?: boolean): number {
+        var fn = tangentAtDistanceMap[pathContext.type];
+        if (!fn) return null;
+
+        var d = distanceFromStart(pathContext, distance, reversed);
+        if (d === null) return null;
+
+        var a = fn(pathContext, d);
+        if (a === null) return null;
+
+        return angle.noRevolutions(a + (reversed ? 180 : 0));
+    }
+
 }
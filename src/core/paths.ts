@@ -286,6 +286,96 @@ namespace MakerJs.paths {
         }
     }
 
+    /**
+     * Class for ellipse path.
+     */
+    export class Ellipse implements IPathEllipse {
+        public type: string;
+        public origin: IPoint;
+        public radiusX: number;
+        public radiusY: number;
+        public angleOfRotation: number;
+
+        /**
+         * Class for ellipse path, created from x and y radii. Origin will be [0, 0].
+         * 
+         * Example:
+         * ```
+         * var e = new makerjs.paths.Ellipse(7, 4);
+         * ```
+         *
+         * @param radiusX The x radius of the ellipse.
+         * @param radiusY The y radius of the ellipse.
+         */
+        constructor(radiusX: number, radiusY: number);
+
+        /**
+         * Class for ellipse path, created from origin point, x and y radii, and optional angle of rotation.
+         * 
+         * Example:
+         * ```
+         * var e = new makerjs.paths.Ellipse([10, 10], 7, 4, 30);
+         * ```
+         *
+         * @param origin The center point of the ellipse.
+         * @param radiusX The x radius of the ellipse.
+         * @param radiusY The y radius of the ellipse.
+         * @param angleOfRotation Optional angle (in degrees) to rotate the ellipse about its center.
+         */
+        constructor(origin: IPoint, radiusX: number, radiusY: number, angleOfRotation?: number);
+
+        constructor(...args: any[]) {
+            this.type = pathType.Ellipse;
+
+            if (args.length === 2) {
+                args.unshift([0, 0]);
+            }
+
+            this.origin = args[0] as IPoint;
+            this.radiusX = args[1] as number;
+            this.radiusY = args[2] as number;
+            this.angleOfRotation = (args[3] as number) || 0;
+        }
+    }
+
+    /**
+     * Class for elliptic arc path.
+     */
+    export class EllipticArc implements IPathEllipticArc {
+        public type: string;
+        public origin: IPoint;
+        public radiusX: number;
+        public radiusY: number;
+        public angleOfRotation: number;
+        public startAngle: number;
+        public endAngle: number;
+
+        /**
+         * Class for elliptic arc path, created from origin point, x and y radii, start and end parametric angles, and optional angle of rotation.
+         * 
+         * Example:
+         * ```
+         * var e = new makerjs.paths.EllipticArc([0, 0], 7, 4, 0, 90);
+         * ```
+         *
+         * @param origin The center point of the ellipse.
+         * @param radiusX The x radius of the ellipse.
+         * @param radiusY The y radius of the ellipse.
+         * @param startAngle The parametric start angle of the arc.
+         * @param endAngle The parametric end angle of the arc.
+         * @param angleOfRotation Optional angle (in degrees) to rotate the ellipse about its center.
+         */
+        constructor(origin: IPoint, radiusX: number, radiusY: number, startAngle: number, endAngle: number, angleOfRotation = 0) {
+            this.type = pathType.EllipticArc;
+            this.origin = origin;
+            this.radiusX = radiusX;
+            this.radiusY = radiusY;
+            this.startAngle = startAngle;
+            this.endAngle = endAngle;
+            this.angleOfRotation = angleOfRotation;
+        }
+    }
+
     /**
      * Class for line path.
      */
@@ -328,6 +418,99 @@ namespace MakerJs.paths {
         }
     }
 
+    /**
+     * Class for bezier seed.
+     */
+    export class BezierSeed implements IPathBezierSeed {
+        public type: string;
+        public origin: IPoint;
+        public end: IPoint;
+        public controls: IPoint[];
+
+        /**
+         * Class for bezier seed, created from point array.
+         * 
+         * @param points Array of 2, 3 or 4 points, with the first being the origin, and the last being the end, and points between used as control points.
+         */
+        constructor(points: IPoint[]);
+
+        /**
+         * Class for quadratic bezier seed.
+         * 
+         * @param origin The origin point of the curve.
+         * @param control The control point of the curve.
+         * @param end The end point of the curve.
+         */
+        constructor(origin: IPoint, control: IPoint, end: IPoint);
+
+        /**
+         * Class for cubic bezier seed.
+         * 
+         * @param origin The origin point of the curve.
+         * @param controls The control points of the curve.
+         * @param end The end point of the curve.
+         */
+        constructor(origin: IPoint, controls: IPoint[], end: IPoint);
+
+        /**
+         * Class for cubic bezier seed.
+         * 
+         * @param origin The origin point of the curve.
+         * @param control1 The control point of the curve origin.
+         * @param control1 The control point of the curve end.
+         * @param end The end point of the curve.
+         */
+        constructor(origin: IPoint, control1: IPoint, control2: IPoint, end: IPoint);
+
+        constructor(...args: any[]) {
+            this.type = pathType.BezierSeed;
+
+            switch (args.length) {
+
+                case 1: //point array
+                    var points = args[0] as IPoint[];
+
+                    this.origin = points[0];
+
+                    if (points.length === 3) {
+                        this.controls = [points[1]];
+                        this.end = points[2];
+
+                    } else if (points.length === 4) {
+                        this.controls = [points[1], points[2]];
+                        this.end = points[3];
+
+                    } else {
+
+                        //two points are a straight line, as a quadratic with its control in the middle
+                        this.controls = [point.average(points[0], points[1])];
+                        this.end = points[1];
+                    }
+
+                    break;
+
+                case 3: //quadratic or cubic
+                    this.origin = args[0] as IPoint;
+
+                    if (isPoint(args[1])) {
+                        this.controls = [args[1] as IPoint];
+                    } else {
+                        this.controls = args[1] as IPoint[];
+                    }
+
+                    this.end = args[2] as IPoint;
+                    break;
+
+                case 4: //cubic params
+                    this.origin = args[0] as IPoint;
+                    this.controls = [args[1] as IPoint, args[2] as IPoint];
+                    this.end = args[3] as IPoint;
+                    break;
+            }
+
+        }
+    }
+
     /**
      * Class for chord, which is simply a line path that connects the endpoints of an arc.
      * 
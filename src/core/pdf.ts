@@ -2,7 +2,9 @@
 
     /**
      * Injects drawing into a PDFKit document.
-     * 
+     *
+     * The drawing may be scaled, fit to the page, or tiled across multiple pages of the same size as the current page.
+     *
      * @param modelToExport Model object to export.
      * @param options Export options object.
      * @returns String of PDF file contents.
@@ -14,73 +16,202 @@
         var opts: IPDFRenderOptions = {
             origin: [0, 0],
             stroke: "#000",
+            scale: 1,
+            tileOverlap: 36,
+            registrationMarks: true
         };
 
         extendObject(opts, options);
 
+        if (modelToExport.exporterOptions) {
+            extendObject(opts, modelToExport.exporterOptions['toPDF']);
+        }
+
         //try to get the unit system from the itemToExport
-        var scale = 1;
+        var unitScale = 1;
         var exportUnits = opts.units || modelToExport.units;
         if (exportUnits) {
             //convert to inch
-            scale = units.conversionScale(exportUnits, unitType.Inch);
+            unitScale = units.conversionScale(exportUnits, unitType.Inch);
         } else {
             //assume pixels, convert to inch
-            scale = 1 / 100;
+            unitScale = 1 / 100;
         }
 
         //from inch to PDF PPI
-        scale *= 72;
+        unitScale *= 72;
+
+        var extents = measure.modelExtents(modelToExport);
+        if (!extents) return;
+
+        var page = doc.page;
+        var margins = page.margins;
+        var titleBlockHeight = opts.titleBlock ? 60 : 0;
+
+        //printable area of each page, in PDF points
+        var pageArea: IPoint = [
+            page.width - margins.left - margins.right,
+            page.height - margins.top - margins.bottom - titleBlockHeight
+        ];
+
+        var drawingScale = opts.scale;
+
+        if (opts.fitToPage) {
+            var fitScales: number[] = [];
+
+            for (var i = 0; i < 2; i++) {
+                var extent = (extents.high[i] - extents.low[i]) * unitScale;
+                if (extent > 0) {
+                    fitScales.push(pageArea[i] / extent);
+                }
+            }
+
+            if (fitScales.length) {
+                drawingScale = Math.min.apply(null, fitScales);
+            }
+        }
 
         //TODO scale each element without a whole clone
-        var scaledModel = model.scale(cloneObject(modelToExport), scale);
+        var scaledModel = model.scale(cloneObject(modelToExport), unitScale * drawingScale);
 
         var size = measure.modelExtents(scaledModel);
+        var drawingSize: IPoint = [size.high[0] - size.low[0], size.high[1] - size.low[1]];
+        var offset: IPoint = [-size.low[0], size.high[1]];
+
+        var openPathDataByLayer: IPathDataMap = {};
+        var pathDataByLayer = getPathDataByLayer(scaledModel, offset, { byLayers: true }, openPathDataByLayer);
+
+        function drawLayer(layer: string) {
+            if (!isLayerVisible(modelToExport, layer)) return;
+
+            var registeredLayer = getRegisteredLayer(modelToExport, layer);
+            var layerOptions: IPDFLayerOptions = (opts.layerOptions && opts.layerOptions[layer]) || {};
+            var stroke = layerOptions.stroke || registeredLayer.color || opts.stroke;
+            var fill = layerOptions.fill || opts.fill;
+
+            doc.save();
+
+            if (registeredLayer.lineWeight) {
+                //from millimeters to PDF points
+                doc.lineWidth(registeredLayer.lineWeight * 72 / 25.4);
+            }
+
+            //endless chains on a layer make one compound path, so that holes are not filled
+            var closedPathData = pathDataByLayer[layer].join(' ');
+            if (closedPathData) {
+                doc.path(closedPathData);
+
+                if (fill && fill !== 'none') {
+                    doc.fillAndStroke(fill, stroke, 'even-odd');
+                } else {
+                    doc.stroke(stroke);
+                }
+            }
+
+            var openPathData = openPathDataByLayer[layer].join(' ');
+            if (openPathData) {
+                doc.path(openPathData).stroke(stroke);
+            }
+
+            doc.restore();
+        }
+
+        function drawRegistrationMark(center: IPoint) {
+            var r = 6;
+
+            doc.save();
+            doc.lineWidth(.5);
+            doc.circle(center[0], center[1], r);
+            doc.moveTo(center[0] - r * 1.5, center[1]).lineTo(center[0] + r * 1.5, center[1]);
+            doc.moveTo(center[0], center[1] - r * 1.5).lineTo(center[0], center[1] + r * 1.5);
+            doc.stroke("#000");
+            doc.restore();
+        }
+
+        function scaleText(s: number) {
+            return s >= 1 ? round(s, .01) + ':1' : '1:' + round(1 / s, .01);
+        }
 
-        var left = -size.low[0];
-        var offset: IPoint = [left, size.high[1]];
+        function drawTitleBlock(pageNumber: number, pageCount: number) {
+            var x = margins.left;
+            var y = page.height - margins.bottom - titleBlockHeight + 12;
+            var w = pageArea[0];
+            var h = titleBlockHeight - 12;
 
-        offset = point.add(offset, options.origin);
+            var details = [
+                'Units: ' + (exportUnits || 'none'),
+                'Scale: ' + scaleText(drawingScale),
+                'Extents: ' + round(extents.high[0] - extents.low[0], .001) + ' x ' + round(extents.high[1] - extents.low[1], .001)
+            ];
 
-        model.findChains(
-            scaledModel,
-            function (chains: IChain[], loose: IWalkPath[], layer: string) {
+            if (pageCount > 1) {
+                details.push('Page ' + pageNumber + ' of ' + pageCount);
+            }
+
+            doc.save();
+            doc.lineWidth(.5);
+            doc.rect(x, y, w, h).stroke("#000");
+            doc.fillColor("#000");
+            doc.fontSize(10).text(opts.titleBlock.name || '', x + 6, y + 6, { width: w - 12 });
+            doc.fontSize(8).text(details.join('     '), x + 6, y + 26, { width: w - 12 });
+            doc.restore();
+        }
+
+        //tiles and fitted drawings are placed at the page margins, otherwise at the origin
+        var pageOrigin = opts.origin;
+        var step = pageArea;
+        var columns = 1;
+        var rows = 1;
+
+        if (opts.tile || opts.fitToPage) {
+            pageOrigin = point.add([margins.left, margins.top], opts.origin);
+        }
 
-                function single(walkedPath: IWalkPath) {
-                    var pathData = pathToSVGPathData(walkedPath.pathContext, walkedPath.offset, offset);
-                    doc.path(pathData).stroke(opts.stroke);
+        if (opts.tile) {
+            //adjacent tiles share an overlapping strip of the drawing
+            step = [pageArea[0] - opts.tileOverlap, pageArea[1] - opts.tileOverlap];
+            columns = Math.max(1, Math.ceil((drawingSize[0] - opts.tileOverlap) / step[0]));
+            rows = Math.max(1, Math.ceil((drawingSize[1] - opts.tileOverlap) / step[1]));
+        }
+
+        for (var row = 0; row < rows; row++) {
+            for (var column = 0; column < columns; column++) {
+
+                var pageNumber = row * columns + column + 1;
+
+                if (pageNumber > 1) {
+                    doc.addPage();
                 }
 
-                chains.map(function (chain: IChain) {
-                    if (chain.links.length > 1) {
-                        var pathData = chainToSVGPathData(chain, offset);
-                        doc.path(pathData).stroke(opts.stroke);
+                doc.save();
 
-                    } else {
-                        var walkedPath = chain.links[0].walkedPath;
-                        if (walkedPath.pathContext.type === pathType.Circle) {
+                if (opts.tile) {
+                    doc.rect(pageOrigin[0], pageOrigin[1], pageArea[0], pageArea[1]).clip();
+                }
 
-                            var fixedPath: IPath;
-                            path.moveTemporary([walkedPath.pathContext], [walkedPath.offset], function () {
-                                fixedPath = path.mirror(walkedPath.pathContext, false, true);
-                            });
-                            path.moveRelative(fixedPath, offset);
+                doc.translate(pageOrigin[0] - column * step[0], pageOrigin[1] - row * step[1]);
 
-                            //TODO use only chainToSVGPathData instead of circle, so that we can use fill
+                for (var layer in pathDataByLayer) {
+                    drawLayer(layer);
+                }
 
-                            doc.circle(fixedPath.origin[0], fixedPath.origin[1], (<IPathCircle>walkedPath.pathContext).radius).stroke(opts.stroke);
+                if (opts.tile && opts.registrationMarks && rows * columns > 1) {
 
-                        } else {
-                            single(walkedPath);
+                    //marks are in the middle of the overlapping strips, so they appear on both adjacent pages
+                    for (var i = 0; i <= columns; i++) {
+                        for (var j = 0; j <= rows; j++) {
+                            drawRegistrationMark([i * step[0] + opts.tileOverlap / 2, j * step[1] + opts.tileOverlap / 2]);
                         }
                     }
-                });
+                }
 
-                loose.map(single);
+                doc.restore();
 
-            },
-            { byLayers: false }
-        );
+                if (opts.titleBlock) {
+                    drawTitleBlock(pageNumber, rows * columns);
+                }
+            }
+        }
     }
 
     /**
@@ -89,7 +220,7 @@
     export interface IPDFRenderOptions extends IExportOptions {
 
         /**
-         * Rendered reference origin. 
+         * Rendered reference origin.
          */
         origin?: IPoint;
 
@@ -97,5 +228,72 @@
          * SVG color of the rendered paths.
          */
         stroke?: string;
+
+        /**
+         * Optional SVG color to fill endless chains. Loops within loops are holes.
+         */
+        fill?: string;
+
+        /**
+         * Optional options applied to specific layers. These take precedence over the model's layer registry.
+         */
+        layerOptions?: { [layer: string]: IPDFLayerOptions };
+
+        /**
+         * Scale of the drawing, e.g. .5 for half size. Default is 1.
+         */
+        scale?: number;
+
+        /**
+         * Flag to scale the drawing to fit within the page margins. This overrides the scale property.
+         */
+        fitToPage?: boolean;
+
+        /**
+         * Flag to tile a drawing which is larger than the page across multiple pages.
+         */
+        tile?: boolean;
+
+        /**
+         * Width of the strip which adjacent tiles have in common, in PDF points. Default is 36, which is half an inch.
+         */
+        tileOverlap?: number;
+
+        /**
+         * Flag to draw registration marks in the overlapping strips of tiles. Default is true.
+         */
+        registrationMarks?: boolean;
+
+        /**
+         * Optional title block to draw at the bottom of each page.
+         */
+        titleBlock?: IPDFTitleBlock;
+    }
+
+    /**
+     * PDF rendering options for a layer.
+     */
+    export interface IPDFLayerOptions {
+
+        /**
+         * SVG color to fill endless chains on the layer.
+         */
+        fill?: string;
+
+        /**
+         * SVG color of the layer's paths.
+         */
+        stroke?: string;
+    }
+
+    /**
+     * Title block of a PDF drawing. The units, scale and extents of the model are shown with the name.
+     */
+    export interface IPDFTitleBlock {
+
+        /**
+         * Name of the drawing.
+         */
+        name?: string;
     }
 }
@@ -0,0 +1,224 @@
+namespace MakerJs.model {
+
+    /**
+     * @private
+     */
+    function hasPaths(modelContext: IModel): boolean {
+        return !!(modelContext && measure.modelExtents(modelContext));
+    }
+
+    /**
+     * Points of a ring where a linking move may begin or end.
+     * @private
+     */
+    function ringPoints(ring: IModel): IPoint[] {
+        var points: IPoint[] = [];
+
+        walk(ring, {
+            onPath: function (walkedPath: IWalkPath) {
+                var pathContext = walkedPath.pathContext;
+                var endPoints = point.fromPathEnds(pathContext, walkedPath.offset);
+
+                if (endPoints) {
+                    points.push.apply(points, endPoints);
+                } else if (pathContext.type === pathType.Circle) {
+                    points.push(point.add(point.fromAngleOnCircle(0, <IPathCircle>pathContext), walkedPath.offset));
+                }
+            }
+        });
+
+        return points;
+    }
+
+    /**
+     * The shortest line between points of two rings.
+     * @private
+     */
+    function linkRings(ringA: IModel, ringB: IModel): IPathLine {
+        var pointsB = ringPoints(ringB);
+        var shortest: IPathLine = null;
+        var shortestDistance: number;
+
+        ringPoints(ringA).forEach(function (a: IPoint) {
+            var b = point.closest(a, pointsB);
+            if (!b) return;
+
+            var distance = measure.pointDistance(a, b);
+            if (!shortest || distance < shortestDistance) {
+                shortest = new paths.Line(a, b);
+                shortestDistance = distance;
+            }
+        });
+
+        return shortest;
+    }
+
+    /**
+     * @private
+     */
+    function zigZag(boundary: IModel, stepOver: number, links: IModel): IModel {
+        var extents = measure.modelExtents(boundary);
+        var raster: IModel = { paths: {} };
+        var rows = Math.floor((extents.high[1] - extents.low[1]) / stepOver);
+
+        //rows are inset by half a step, so that the first and last rows are within the boundary
+        var firstRow = extents.low[1] + (extents.high[1] - extents.low[1] - rows * stepOver) / 2;
+
+        for (var i = 0; i <= rows; i++) {
+            var y = firstRow + i * stepOver;
+            raster.paths['row_' + i] = new paths.Line([extents.low[0] - stepOver, y], [extents.high[0] + stepOver, y]);
+        }
+
+        //clip the rows by the boundary, then discard the boundary. rows are open, so they must not be trimmed as dead ends
+        var clipper = cloneObject(boundary);
+        combineIntersection(raster, clipper, { trimDeadEnds: false });
+
+        var segmentsByRow: IPathLine[][] = [];
+
+        walk(raster, {
+            onPath: function (walkedPath: IWalkPath) {
+                var line = <IPathLine>path.moveRelative(path.clone(walkedPath.pathContext), walkedPath.offset);
+                var row = Math.round((line.origin[1] - firstRow) / stepOver);
+
+                if (!segmentsByRow[row]) {
+                    segmentsByRow[row] = [];
+                }
+                segmentsByRow[row].push(line);
+            }
+        });
+
+        var result: IModel = { paths: {} };
+        var count = 0;
+        var previous: IPoint = null;
+
+        //alternate the direction of each row, and link to the next row when the rows have one segment each
+        segmentsByRow.forEach(function (segments: IPathLine[], row: number) {
+            if (!segments) return;
+
+            var leftToRight = row % 2 === 0;
+
+            segments.sort(function (a: IPathLine, b: IPathLine) {
+                var ax = Math.min(a.origin[0], a.end[0]);
+                var bx = Math.min(b.origin[0], b.end[0]);
+                return leftToRight ? ax - bx : bx - ax;
+            });
+
+            segments.forEach(function (line: IPathLine) {
+                var ends = [line.origin, line.end].sort(function (a: IPoint, b: IPoint) {
+                    return leftToRight ? a[0] - b[0] : b[0] - a[0];
+                });
+
+                result.paths['raster_' + count++] = new paths.Line(ends[0], ends[1]);
+            });
+
+            var first = segments[0];
+            var start = leftToRight ? Math.min(first.origin[0], first.end[0]) : Math.max(first.origin[0], first.end[0]);
+
+            if (previous && segmentsByRow[row - 1] && segmentsByRow[row - 1].length === 1 && segments.length === 1) {
+                links.paths['raster_' + row] = new paths.Line(previous, [start, first.origin[1]]);
+            }
+
+            var last = segments[segments.length - 1];
+            var end = leftToRight ? Math.max(last.origin[0], last.end[0]) : Math.min(last.origin[0], last.end[0]);
+            previous = [end, last.origin[1]];
+        });
+
+        return result;
+    }
+
+    /**
+     * Create toolpaths to clear the area within the loops of a model, such as for a CNC router pocket. Loops within loops are islands which are not cleared.
+     *
+     * @param loopModel Model of endless chains to pocket.
+     * @param toolDiameter Diameter of the cutting tool.
+     * @param stepOver Distance between adjacent toolpaths, which should be less than the tool diameter.
+     * @param options Optional options object.
+     * @returns A new model with child models of toolpaths: "rings", ordered from inside out, "raster" when using the zig-zag strategy, and "links" of moves between them. Returns null if the tool does not fit.
+     */
+    export function pocket(loopModel: IModel, toolDiameter: number, stepOver: number, options?: IPocketOptions): IModel {
+
+        var opts: IPocketOptions = {
+            strategy: pocketStrategy.Offset,
+            joints: 0
+        };
+
+        extendObject(opts, options);
+
+        if (!(toolDiameter > 0) || !(stepOver > 0)) return null;
+
+        //the center of the tool follows the boundary inset by its radius
+        var boundary = outline(loopModel, toolDiameter / 2, opts.joints, true);
+        if (!hasPaths(boundary)) return null;
+
+        var rings: IModel[] = [boundary];
+        var links: IModel = { paths: {} };
+        var result: IModel = { models: {} };
+
+        if (opts.strategy === pocketStrategy.ZigZag) {
+            result.models['raster'] = zigZag(boundary, stepOver, links);
+
+        } else {
+            var extents = measure.modelExtents(boundary);
+            var maxRings = Math.ceil(Math.max(extents.high[0] - extents.low[0], extents.high[1] - extents.low[1]) / stepOver);
+
+            //inset the original loops until the region is empty, so that islands remain on the correct side
+            for (var i = 1; i <= maxRings; i++) {
+                var ring = outline(loopModel, toolDiameter / 2 + i * stepOver, opts.joints, true);
+                if (!hasPaths(ring)) break;
+                rings.push(ring);
+            }
+
+            rings.reverse();
+
+            for (var i = 1; i < rings.length; i++) {
+                var link = linkRings(rings[i - 1], rings[i]);
+                if (link) {
+                    links.paths['ring_' + i] = link;
+                }
+            }
+        }
+
+        var ringsModel: IModel = { models: {} };
+
+        rings.forEach(function (ring: IModel, i: number) {
+            ringsModel.models[i] = ring;
+        });
+
+        result.models['rings'] = ringsModel;
+        result.models['links'] = links;
+
+        return result;
+    }
+
+    /**
+     * Strategies of clearing a pocket.
+     */
+    export var pocketStrategy = {
+
+        /**
+         * Concentric rings, each inset from the last.
+         */
+        Offset: 'offset',
+
+        /**
+         * Parallel rows within the boundary, followed by a finishing ring.
+         */
+        ZigZag: 'zigzag'
+    };
+
+    /**
+     * Options to pass to model.pocket.
+     */
+    export interface IPocketOptions {
+
+        /**
+         * Optional strategy, one of the pocketStrategy values. Default is offset.
+         */
+        strategy?: string;
+
+        /**
+         * Optional number of points at a joint between paths of each ring. Use 0 for round joints, 1 for pointed joints, 2 for beveled joints.
+         */
+        joints?: number;
+    }
+}
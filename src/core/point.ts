@@ -94,6 +94,19 @@ namespace MakerJs.point {
         return add(circle.origin, fromPolar(angle.toRadians(angleInDegrees), circle.radius));
     }
 
+    /**
+     * Get a point on an ellipse, at a parametric angle.
+     * 
+     * @param angleInDegrees The parametric angle of the point, before the ellipse is rotated.
+     * @param ellipse An ellipse or elliptic arc path object.
+     * @returns A new point object.
+     */
+    export function fromAngleOnEllipse(angleInDegrees: number, ellipse: IPathEllipse): IPoint {
+        var a = angle.toRadians(angleInDegrees);
+        var p: IPoint = [ellipse.radiusX * Math.cos(a), ellipse.radiusY * Math.sin(a)];
+        return add(ellipse.origin, rotate(p, ellipse.angleOfRotation || 0, zero()));
+    }
+
     /**
      * Get the two end points of an arc path.
      * 
@@ -119,6 +132,10 @@ namespace MakerJs.point {
 
     pathEndsMap[pathType.BezierSeed] = pathEndsMap[pathType.Line];
 
+    pathEndsMap[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc) {
+        return [fromAngleOnEllipse(ellipticArc.startAngle, ellipticArc), fromAngleOnEllipse(ellipticArc.endAngle, ellipticArc)];
+    };
+
     /**
      * Get the two end points of a path.
      * 
@@ -213,6 +230,14 @@ namespace MakerJs.point {
         ];
     };
 
+    middleMap[pathType.Ellipse] = function (ellipse: IPathEllipse, ratio: number) {
+        return fromAngleOnEllipse(180, ellipse);
+    };
+
+    middleMap[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc, ratio: number) {
+        return fromAngleOnEllipse(angle.ofArcMiddle(ellipticArc, ratio), ellipticArc);
+    };
+
     middleMap[pathType.BezierSeed] = function (seed: IPathBezierSeed, ratio: number) {
         return models.BezierCurve.computePoint(seed, ratio);
     }
@@ -0,0 +1,204 @@
+namespace MakerJs.importer {
+
+    /**
+     * @private
+     */
+    function parseAsciiSTL(text: string): number[][][] {
+        var triangles: number[][][] = [];
+        var vertices: number[][] = [];
+
+        var re = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+        var matches: RegExpExecArray;
+
+        while ((matches = re.exec(text)) !== null) {
+            vertices.push([parseFloat(matches[1]), parseFloat(matches[2]), parseFloat(matches[3])]);
+
+            if (vertices.length === 3) {
+                triangles.push(vertices);
+                vertices = [];
+            }
+        }
+
+        return triangles;
+    }
+
+    /**
+     * @private
+     */
+    function parseBinarySTL(bytes: Uint8Array): number[][][] {
+        var view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        var count = view.getUint32(80, true);
+        var triangles: number[][][] = [];
+
+        for (var i = 0; i < count; i++) {
+
+            //skip the normal
+            var position = 84 + i * 50 + 12;
+            var triangle: number[][] = [];
+
+            for (var j = 0; j < 3; j++) {
+                triangle.push([
+                    view.getFloat32(position, true),
+                    view.getFloat32(position + 4, true),
+                    view.getFloat32(position + 8, true)
+                ]);
+                position += 12;
+            }
+
+            triangles.push(triangle);
+        }
+
+        return triangles;
+    }
+
+    /**
+     * @private
+     */
+    function parseSTL(stl: string | ArrayBuffer): number[][][] {
+        if (typeof stl === 'string') {
+            return parseAsciiSTL(<string>stl);
+        }
+
+        var bytes = new Uint8Array(<ArrayBuffer>stl);
+
+        //binary files may also begin with "solid", so they are recognized by their size
+        if (bytes.length >= 84) {
+            var count = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(80, true);
+            if (bytes.length === 84 + count * 50) {
+                return parseBinarySTL(bytes);
+            }
+        }
+
+        var text = '';
+        for (var i = 0; i < bytes.length; i++) {
+            text += String.fromCharCode(bytes[i]);
+        }
+
+        return parseAsciiSTL(text);
+    }
+
+    /**
+     * Find the segment where a triangle, of 3 vertices of [x, y, z], crosses a horizontal plane.
+     * @private
+     */
+    function sliceTriangle(triangle: number[][], z: number, onPlaneIsAbove: boolean): IPathLine {
+        var ends: IPoint[] = [];
+
+        //vertices on the plane are considered to be on one side of it, so that each edge is crossed once at most
+        function isAbove(v: number[]) {
+            return onPlaneIsAbove ? v[2] >= z : v[2] > z;
+        }
+
+        for (var i = 0; i < 3; i++) {
+            var a = triangle[i];
+            var b = triangle[(i + 1) % 3];
+
+            if (isAbove(a) !== isAbove(b)) {
+                var ratio = (z - a[2]) / (b[2] - a[2]);
+                ends.push([a[0] + (b[0] - a[0]) * ratio, a[1] + (b[1] - a[1]) * ratio]);
+            }
+        }
+
+        if (ends.length !== 2 || measure.isPointEqual(ends[0], ends[1])) return null;
+
+        return new paths.Line(ends[0], ends[1]);
+    }
+
+    /**
+     * Create a model of cross sections of a 3D mesh in STL format, at horizontal planes.
+     *
+     * Example:
+     * ```
+     * var slices = makerjs.importer.fromSTLSlice(stlText, [1, 2, 3], { units: makerjs.unitType.Millimeter });
+     * ```
+     *
+     * @param stl String of ASCII STL, or ArrayBuffer of binary or ASCII STL.
+     * @param zHeights Array of heights of the horizontal planes. A height on a horizontal face gives the outline of the solid just above it, or just below it at the top of the mesh (within the point matching distance), so that the bottom and top faces both give their outlines.
+     * @param options Optional options object.
+     * @returns A new model with a child model for each height, keyed by its index in the zHeights array. Each slice has a child model of lines for each chain found.
+     */
+    export function fromSTLSlice(stl: string | ArrayBuffer, zHeights: number[], options?: ISTLSliceOptions): IModel {
+
+        var opts: ISTLSliceOptions = {
+            pointMatchingDistance: .005
+        };
+
+        extendObject(opts, options);
+
+        var triangles = parseSTL(stl);
+        var result: IModel = { models: {} };
+
+        var top: number;
+        triangles.forEach(function (triangle: number[][]) {
+            triangle.forEach(function (v: number[]) {
+                if (top === undefined || v[2] > top) {
+                    top = v[2];
+                }
+            });
+        });
+
+        if (opts.units) {
+            result.units = opts.units;
+        }
+
+        zHeights.forEach(function (z: number, i: number) {
+            var segments: IModel = { paths: {} };
+            var count = 0;
+
+            //vertices may be stored in single precision, so a height near the top is at the top
+            var atTop = Math.abs(z - top) <= opts.pointMatchingDistance;
+            if (atTop) {
+                z = top;
+            }
+
+            triangles.forEach(function (triangle: number[][]) {
+                //a plane is sliced just above it, except at the top of the mesh, which is sliced just below
+                var line = sliceTriangle(triangle, z, atTop);
+                if (line) {
+                    segments.paths[count++] = line;
+                }
+            });
+
+            var slice: IModel = { models: {} };
+
+            //stitch the segments of each loop together, in order
+            model.findChains(segments, function (chains: IChain[], loose: IWalkPath[], layer: string) {
+                chains.forEach(function (chain: IChain, j: number) {
+                    var loop: IModel = { paths: {} };
+
+                    chain.links.forEach(function (link: IChainLink, k: number) {
+                        var line = <IPathLine>link.walkedPath.pathContext;
+                        var endPoints = link.reversed ? [line.end, line.origin] : [line.origin, line.end];
+                        loop.paths[k] = new paths.Line(endPoints[0], endPoints[1]);
+                    });
+
+                    if (opts.simplify) {
+                        model.simplify(loop, opts);
+                    }
+
+                    slice.models[j] = loop;
+                });
+            }, opts);
+
+            result.models[i] = slice;
+        });
+
+        return result;
+    }
+
+    /**
+     * Options to pass to importer.fromSTLSlice.
+     */
+    export interface ISTLSliceOptions extends IPointMatchOptions {
+
+        /**
+         * Optional unit system of the STL file.
+         */
+        units?: string;
+
+        /**
+         * Flag to combine collinear segments with model.simplify.
+         */
+        simplify?: boolean;
+    }
+}
@@ -3,7 +3,7 @@ namespace MakerJs.exporter {
     /**
      * @private
      */
-    interface IPathDataMap {
+    export interface IPathDataMap {
         [layer: string]: string[];
     }
 
@@ -43,6 +43,11 @@ namespace MakerJs.exporter {
         svgBezierData(d, seed, reversed);
     };
 
+    chainLinkToPathDataMap[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc, endPoint: IPoint, reversed: boolean, d: ISvgPathData) {
+        d.push('A');
+        svgEllipticArcData(d, ellipticArc, endPoint, !reversed);
+    };
+
     /**
      * @private
      */
@@ -50,6 +55,32 @@ namespace MakerJs.exporter {
         return point.mirror(p, false, true);
     }
 
+    /**
+     * Wind endless chains in alternate directions by how deeply they are nested, so that holes are not filled by the nonzero fill rule.
+     * @private
+     */
+    function windChainsByDepth(chains: IChain[]) {
+        var endless = chains.filter(function (c: IChain) { return c.endless; });
+        var loopModels = endless.map(function (c: IChain) { return chain.toNewModel(c); });
+
+        endless.forEach(function (c: IChain, i: number) {
+            var link = c.links[0];
+            var pathContext = path.moveRelative(path.clone(link.walkedPath.pathContext), link.walkedPath.offset);
+            var depth = 0;
+
+            loopModels.forEach(function (loopModel: IModel, j: number) {
+                if (i !== j && model.isPathInsideModel(pathContext, loopModel)) {
+                    depth++;
+                }
+            });
+
+            //counter-clockwise at even depths, clockwise at odd depths
+            if (measure.isChainClockwise(c) !== (depth % 2 === 1)) {
+                chain.reverse(c);
+            }
+        });
+    }
+
     /**
      * Convert a chain to SVG path data.
      */
@@ -98,7 +129,7 @@ namespace MakerJs.exporter {
      * @private
      */
     interface ISvgPathDataMap {
-        [pathType: string]: (pathContext: IPath) => ISvgPathData;
+        [pathType: string]: (pathContext: IPath, reversed?: boolean) => ISvgPathData;
     }
 
     /**
@@ -110,16 +141,16 @@ namespace MakerJs.exporter {
         return startSvgPathData(line.origin, point.rounded(line.end) as Array<number>);
     };
 
-    svgPathDataMap[pathType.Circle] = function (circle: IPathCircle) {
-        return startSvgPathData(circle.origin, svgCircleData(circle.radius));
+    svgPathDataMap[pathType.Circle] = function (circle: IPathCircle, reversed?: boolean) {
+        return startSvgPathData(circle.origin, svgCircleData(circle.radius, reversed));
     };
 
-    svgPathDataMap[pathType.Arc] = function (arc: IPathArc) {
+    svgPathDataMap[pathType.Arc] = function (arc: IPathArc, reversed?: boolean) {
 
         var arcPoints = point.fromArc(arc);
 
         if (measure.isPointEqual(arcPoints[0], arcPoints[1])) {
-            return svgPathDataMap[pathType.Circle](arc);
+            return svgPathDataMap[pathType.Circle](arc, reversed);
         } else {
 
             var r = round(arc.radius);
@@ -142,10 +173,21 @@ namespace MakerJs.exporter {
         return startSvgPathData(seed.origin, d);
     };
 
+    svgPathDataMap[pathType.Ellipse] = function (ellipse: IPathEllipse, reversed?: boolean) {
+        return startSvgPathData(point.fromAngleOnEllipse(0, ellipse), svgEllipseData(ellipse, reversed));
+    };
+
+    svgPathDataMap[pathType.EllipticArc] = function (ellipticArc: IPathEllipticArc) {
+        var arcPoints = point.fromPathEnds(ellipticArc);
+        var d: ISvgPathData = ['A'];
+        svgEllipticArcData(d, ellipticArc, arcPoints[1]);
+        return startSvgPathData(arcPoints[0], d);
+    };
+
     /**
-     * Convert a path to SVG path data.
+     * Convert a path to SVG path data. A circle or ellipse may be drawn in reverse.
      */
-    export function pathToSVGPathData(pathToExport: IPath, offset: IPoint, offset2: IPoint): string {
+    export function pathToSVGPathData(pathToExport: IPath, offset: IPoint, offset2: IPoint, reversed = false): string {
         var fn = svgPathDataMap[pathToExport.type];
         if (fn) {
             var fixedPath: IPath;
@@ -154,7 +196,7 @@ namespace MakerJs.exporter {
             });
             path.moveRelative(fixedPath, offset2);
 
-            var d = fn(fixedPath);
+            var d = fn(fixedPath, reversed);
             return d.join(' ');
         }
         return '';
@@ -163,103 +205,48 @@ namespace MakerJs.exporter {
     /**
      * @private
      */
-    function getBezierModelsWithPaths(modelToExport: IModel): IWalkModel[] {
-
-        var beziers: IWalkModel[] = [];
-
-        function checkIsBezierWithPaths(walkedModel: IWalkModel) {
-            var b = walkedModel.childModel;
-            if (b.type && b.type === models.BezierCurve.typeName && b.paths) {
-                beziers.push(walkedModel);
-            }
-        }
-
-        var options: IWalkOptions = {
-            beforeChildWalk: function (walkedModel: IWalkModel): boolean {
-                checkIsBezierWithPaths(walkedModel);
-                return true;
-            }
-        };
-
-        var rootModel: IWalkModel = {
-            childId: '',
-            childModel: modelToExport,
-            layer: '',
-            offset: modelToExport.origin,
-            parentModel: null,
-            route: [],
-            routeKey: ''
-        };
-
-        checkIsBezierWithPaths(rootModel);
-
-        model.walk(modelToExport, options);
-
-        return beziers;
-    }
-
-    /**
-     * @private
-     */
-    function getPathDataByLayer(modelToExport: IModel, offset: IPoint, options: IFindChainsOptions) {
+    export function getPathDataByLayer(modelToExport: IModel, offset: IPoint, options: IFindChainsOptions, openPathDataByLayer?: IPathDataMap, windByDepth = false) {
         var pathDataByLayer: IPathDataMap = {};
 
-        var beziers = getBezierModelsWithPaths(modelToExport);
-        var tempKey = 'tempPaths';
-
-        beziers.forEach(function (walkedModel: IWalkModel) {
-
-            var b = walkedModel.childModel as models.BezierCurve;
-
-            //use seeds as path, hide the arc paths from findChains()
-            var bezierSeeds = models.BezierCurve.getBezierSeeds(b);
-            if (bezierSeeds.length > 0) {
-                b[tempKey] = b.paths;
+        useBezierSeeds(modelToExport, function () {
+            model.findChains(
+                modelToExport,
+                function (chains: IChain[], loose: IWalkPath[], layer: string) {
 
-                var newPaths: IPathMap = {};
+                    //when requested, keep open paths apart from endless chains so that they are not filled
+                    var openPathData = pathDataByLayer[layer] = [];
 
-                bezierSeeds.forEach(function (seed, i) {
-                    newPaths['seed_' + i] = seed;
-                });
-
-                b.paths = newPaths;
-            }
-
-        });
-
-        model.findChains(
-            modelToExport,
-            function (chains: IChain[], loose: IWalkPath[], layer: string) {
-
-                function single(walkedPath: IWalkPath) {
-                    var pathData = pathToSVGPathData(walkedPath.pathContext, walkedPath.offset, offset);
-                    pathDataByLayer[layer].push(pathData);
-                }
+                    if (openPathDataByLayer) {
+                        openPathData = openPathDataByLayer[layer] = [];
+                    }
 
-                pathDataByLayer[layer] = [];
+                    function single(walkedPath: IWalkPath, pathDataArray: string[], reversed?: boolean) {
+                        var pathData = pathToSVGPathData(walkedPath.pathContext, walkedPath.offset, offset, reversed);
+                        pathDataArray.push(pathData);
+                    }
 
-                chains.map(function (chain: IChain) {
-                    if (chain.links.length > 1) {
-                        var pathData = chainToSVGPathData(chain, offset);
-                        pathDataByLayer[layer].push(pathData);
-                    } else {
-                        single(chain.links[0].walkedPath);
+                    if (windByDepth) {
+                        windChainsByDepth(chains);
                     }
-                });
 
-                loose.map(single);
+                    chains.map(function (chain: IChain) {
+                        var pathDataArray = chain.endless ? pathDataByLayer[layer] : openPathData;
 
-            },
-            options
-        );
+                        if (chain.links.length > 1) {
+                            var pathData = chainToSVGPathData(chain, offset);
+                            pathDataArray.push(pathData);
+                        } else {
+                            single(chain.links[0].walkedPath, pathDataArray, chain.links[0].reversed);
+                        }
+                    });
 
-        //revert
-        beziers.forEach(function (walkedModel: IWalkModel) {
-            var b = walkedModel.childModel as models.BezierCurve;
-            if (tempKey in b) {
-                b.paths = b[tempKey];
-                delete b[tempKey];
-            }
+                    loose.map(function (walkedPath: IWalkPath) {
+                        single(walkedPath, openPathData);
+                    });
+
+                },
+                options
+            );
         });
 
         return pathDataByLayer;
@@ -286,6 +273,8 @@ namespace MakerJs.exporter {
     export function toSVG(itemToExport: any, options?: ISVGRenderOptions): string {
 
         function append(value: string, layer?: string, forcePush = false) {
+            if (!isLayerVisible(modelToExport, layer)) return;
+
             if (!forcePush && typeof layer == "string" && layer.length > 0) {
 
                 if (!(layer in layers)) {
@@ -324,6 +313,41 @@ namespace MakerJs.exporter {
             return path.moveRelative(path.scale(mirrorY, opts.scale), origin);
         }
 
+        function getLayerAttrs(layer: string, unfilled = false): IXmlTagAttrs {
+            var attrs: IXmlTagAttrs = {};
+            var registeredLayer = getRegisteredLayer(modelToExport, layer);
+            var layerOptions = opts.layerOptions && opts.layerOptions[layer];
+
+            if (registeredLayer.color) {
+                attrs['stroke'] = registeredLayer.color;
+            }
+
+            if (registeredLayer.lineWeight) {
+                attrs['stroke-width'] = registeredLayer.lineWeight + 'mm';
+            }
+
+            if (layerOptions) {
+                if (layerOptions.stroke) {
+                    attrs['stroke'] = layerOptions.stroke;
+                }
+
+                if (layerOptions.fill) {
+                    attrs['fill'] = layerOptions.fill;
+                }
+            }
+
+            if (unfilled) {
+                attrs['fill'] = 'none';
+            }
+
+            return attrs;
+        }
+
+        function isLayerFilled(layer: string): boolean {
+            var fill = getLayerAttrs(layer)['fill'] || opts.fill;
+            return !!fill && fill !== 'none';
+        }
+
         //fixup options
         var opts: ISVGRenderOptions = {
             annotate: false,
@@ -332,6 +356,7 @@ namespace MakerJs.exporter {
             stroke: "#000",
             strokeWidth: '0.25mm',   //a somewhat average kerf of a laser cutter
             fill: "none",
+            fillRule: "evenodd",
             fontSize: '9pt',
             useSvgPathOnly: true,
             viewBox: true
@@ -417,18 +442,47 @@ namespace MakerJs.exporter {
             "stroke-width": opts.strokeWidth,
             "stroke-linecap": "round",
             "fill": opts.fill,
-            "fill-rule": "evenodd",
+            "fill-rule": opts.fillRule,
             "font-size": opts.fontSize
         });
         append(svgGroup.getOpeningTag(false));
 
         if (opts.useSvgPathOnly) {
 
-            var pathDataByLayer = getPathDataByLayer(modelToExport, opts.origin, { byLayers: true });
+            var openPathDataByLayer: IPathDataMap = {};
+            var pathDataByLayer = getPathDataByLayer(modelToExport, opts.origin, { byLayers: true }, openPathDataByLayer, opts.fillRule === 'nonzero');
+
+            function layerPath(layer: string, pathData: string[], unfilled = false) {
+
+                //registered layers are rendered in a group, which carries the layer attributes
+                var grouped = !!(layer && modelToExport.layers && layer in modelToExport.layers);
+                var attrs: IXmlTagAttrs = grouped ? {} : getLayerAttrs(layer, unfilled);
+
+                if (grouped && unfilled) {
+                    attrs['fill'] = 'none';
+                }
+
+                createElement("path", <IXmlTagAttrs>extendObject({ "d": pathData.join(' ') }, attrs), layer, null, !grouped);
+            }
 
             for (var layer in pathDataByLayer) {
-                var pathData = pathDataByLayer[layer].join(' ');
-                createElement("path", { "d": pathData }, layer, null, true);
+                var closedPathData = pathDataByLayer[layer];
+                var openPathData = openPathDataByLayer[layer];
+
+                if (isLayerFilled(layer)) {
+
+                    //endless chains on a layer make one compound path, so that holes are not filled
+                    if (closedPathData.length) {
+                        layerPath(layer, closedPathData);
+                    }
+
+                    if (openPathData.length) {
+                        layerPath(layer, openPathData, true);
+                    }
+
+                } else {
+                    layerPath(layer, closedPathData.concat(openPathData));
+                }
             }
 
         } else {
@@ -534,6 +588,35 @@ namespace MakerJs.exporter {
                 drawPath(id, seed.origin[0], seed.origin[1], d, layer, point.middle(seed));
             };
 
+            map[pathType.Ellipse] = function (id: string, ellipse: IPathEllipse, origin: IPoint, layer: string) {
+
+                var center = ellipse.origin;
+                var attrs: IXmlTagAttrs = {
+                    "id": id,
+                    "rx": round(ellipse.radiusX),
+                    "ry": round(ellipse.radiusY),
+                    "cx": round(center[0]),
+                    "cy": round(center[1])
+                };
+
+                if (round(ellipse.angleOfRotation || 0)) {
+                    attrs["transform"] = "rotate(" + [round(ellipse.angleOfRotation), round(center[0]), round(center[1])].join(' ') + ")";
+                }
+
+                createElement("ellipse", attrs, layer);
+
+                if (opts.annotate) {
+                    drawText(id, center);
+                }
+            };
+
+            map[pathType.EllipticArc] = function (id: string, ellipticArc: IPathEllipticArc, origin: IPoint, layer: string) {
+                var arcPoints = point.fromPathEnds(ellipticArc);
+                var d: ISvgPathData = ['A'];
+                svgEllipticArcData(d, ellipticArc, arcPoints[1]);
+                drawPath(id, arcPoints[0][0], arcPoints[0][1], d, layer, point.middle(ellipticArc));
+            };
+
             function beginModel(id: string, modelContext: IModel) {
                 modelGroup.attrs = { id: id };
                 append(modelGroup.getOpeningTag(false), modelContext.layer);
@@ -545,20 +628,22 @@ namespace MakerJs.exporter {
 
             var modelGroup = new XmlTag('g');
             var exp = new Exporter(map, fixPoint, fixPath, beginModel, endModel);
-            exp.exportItem('0', itemToExport, opts.origin);
+            useBezierSeeds(modelToExport, function () {
+                exp.exportItem('0', itemToExport, opts.origin);
+            });
+        }
 
-            //export layers as groups
-            for (var layer in layers) {
+        //export layers as groups
+        for (var layer in layers) {
 
-                var layerGroup = new XmlTag('g', { id: layer });
+            var layerGroup = new XmlTag('g', <IXmlTagAttrs>extendObject({ id: layer }, getLayerAttrs(layer)));
 
-                for (var i = 0; i < layers[layer].length; i++) {
-                    layerGroup.innerText += layers[layer][i];
-                }
-
-                layerGroup.innerTextEscaped = true;
-                append(layerGroup.toString());
+            for (var i = 0; i < layers[layer].length; i++) {
+                layerGroup.innerText += layers[layer][i];
             }
+
+            layerGroup.innerTextEscaped = true;
+            append(layerGroup.toString());
         }
 
         append(svgGroup.getClosingTag());
@@ -570,13 +655,13 @@ namespace MakerJs.exporter {
     /**
      * @private
      */
-    function svgCircleData(radius: number): ISvgPathData {
+    function svgCircleData(radius: number, reversed?: boolean): ISvgPathData {
         var r = round(radius);
         var d: ISvgPathData = ['m', -r, 0];
 
         function halfCircle(sign: number) {
             d.push('a');
-            svgArcData(d, r, [2 * r * sign, 0]);
+            svgArcData(d, r, [2 * r * sign, 0], false, reversed);
         }
 
         halfCircle(1);
@@ -587,6 +672,37 @@ namespace MakerJs.exporter {
         return d;
     }
 
+    /**
+     * @private
+     */
+    function svgEllipseData(ellipse: IPathEllipse, reversed?: boolean): ISvgPathData {
+        var d: ISvgPathData = [];
+
+        function halfEllipse(endAngle: number) {
+            var halfArc = new paths.EllipticArc(ellipse.origin, ellipse.radiusX, ellipse.radiusY, endAngle - 180, endAngle, ellipse.angleOfRotation);
+            d.push('A');
+            svgEllipticArcData(d, halfArc, point.fromAngleOnEllipse(endAngle, ellipse), reversed);
+        }
+
+        halfEllipse(180);
+        halfEllipse(360);
+
+        d.push('z');
+
+        return d;
+    }
+
+    /**
+     * @private
+     */
+    function svgEllipticArcData(d: ISvgPathData, ellipticArc: IPathEllipticArc, endPoint: IPoint, decreasing?: boolean) {
+        d.push(round(ellipticArc.radiusX), round(ellipticArc.radiusY));
+        d.push(round(ellipticArc.angleOfRotation || 0));
+        d.push(angle.ofArcSpan(ellipticArc) > 180 ? 1 : 0);    //large arc=1, small arc=0
+        d.push(decreasing ? 0 : 1);                             //sweep-flag 0=decreasing, 1=increasing
+        d.push(round(endPoint[0]), round(endPoint[1]));
+    }
+
     /**
      * @private
      */
@@ -656,10 +772,20 @@ namespace MakerJs.exporter {
         svgAttrs?: IXmlTagAttrs;
 
         /**
-         * SVG fill color.
+         * SVG fill color. Endless chains on each layer are filled as one compound path; open paths are not filled.
          */
         fill?: string;
 
+        /**
+         * SVG fill rule, either "evenodd" or "nonzero". Default is "evenodd". Either way, loops within loops are holes, since with "nonzero" the loops are wound in alternate directions by their depth.
+         */
+        fillRule?: string;
+
+        /**
+         * Optional options applied to specific layers. These take precedence over the model's layer registry.
+         */
+        layerOptions?: { [layer: string]: ISVGLayerOptions };
+
         /**
          * SVG font size and font size units.
          */
@@ -701,6 +827,22 @@ namespace MakerJs.exporter {
         viewBox?: boolean;
     }
 
+    /**
+     * SVG rendering options for a layer.
+     */
+    export interface ISVGLayerOptions {
+
+        /**
+         * SVG fill color of the layer.
+         */
+        fill?: string;
+
+        /**
+         * SVG color of the layer's paths.
+         */
+        stroke?: string;
+    }
+
 }
 
 namespace MakerJs.importer {
@@ -818,12 +960,12 @@ namespace MakerJs.importer {
                 }
 
                 //create an elliptical arc, this will re-distort
-                var e = new models.EllipticArc(arc, 1, ry / rx);
+                var e = path.distort(arc, 1, ry / rx);
 
                 //un-rotate back to where it should be.
-                model.rotate(e, -rotation, cmd.from);
+                path.rotate(e, -rotation, cmd.from);
 
-                addModel(e);
+                addPath(e);
 
             } else {
                 //just use the arc
@@ -896,6 +1038,7 @@ namespace MakerJs.importer {
             return end;
         };
 
+        var dataLengths: { [command: string]: number } = { A: 7, C: 6, H: 1, L: 2, M: 2, Q: 4, S: 4, T: 2, V: 1, Z: 0 };
         var firstPoint: IPoint = [0, 0];
         var currPoint: IPoint = [0, 0];
         var pathCount = 0;
@@ -909,27 +1052,448 @@ namespace MakerJs.importer {
             }
 
             var command = commandMatches[1]; //0 = command and data, 1 = command, 2 = data
-            var dataString = commandMatches[2];
+            var data = parseNumericList(commandMatches[2]);
+            var upperCommand = command.toUpperCase();
+            var absolute = command === upperCommand;
+
+            //a command may be repeated implicitly by additional sets of data
+            do {
+                var dataLength = dataLengths[upperCommand];
+
+                var currCmd: ISVGPathCommand = {
+                    command: upperCommand,
+                    data: dataLength ? data.splice(0, dataLength) : data,
+                    from: currPoint,
+                    prev: prevCommand
+                };
+
+                if (absolute) {
+                    currCmd.absolute = true;
+                }
+
+                var fn = map[currCmd.command];
+                if (fn) {
+                    currPoint = fn(currCmd);
+                }
+
+                prevCommand = currCmd;
+
+                //additional data after a moveto is a lineto
+                if (upperCommand === 'M') {
+                    upperCommand = 'L';
+                }
+
+            } while (dataLength && data.length >= dataLengths[upperCommand]);
+        }
+
+        return result;
+    }
+
 
-            var currCmd: ISVGPathCommand = {
-                command: command.toUpperCase(),
-                data: [],
-                from: currPoint,
-                prev: prevCommand
+    /**
+     * @private
+     */
+    interface ISVGElement {
+        tagName: string;
+        attrs: { [name: string]: string };
+        selfClosing: boolean;
+        closing: boolean;
+    }
+
+    /**
+     * @private
+     */
+    interface ISVGGroupContext {
+        tagName: string;
+        id: string;
+        model: IModel;
+        transform: string;
+        skip: boolean;
+    }
+
+    /**
+     * Affine matrix in SVG order: [a, b, c, d, e, f].
+     * @private
+     */
+    interface ISVGMatrix extends Array<number> { }
+
+    /**
+     * Elements whose children are not rendered directly.
+     * @private
+     */
+    var svgSkipElements = ['clipPath', 'defs', 'desc', 'linearGradient', 'marker', 'mask', 'metadata', 'pattern', 'radialGradient', 'style', 'symbol', 'text', 'title'];
+
+    /**
+     * @private
+     */
+    function multiplyMatrix(m1: ISVGMatrix, m2: ISVGMatrix): ISVGMatrix {
+        return [
+            m1[0] * m2[0] + m1[2] * m2[1],
+            m1[1] * m2[0] + m1[3] * m2[1],
+            m1[0] * m2[2] + m1[2] * m2[3],
+            m1[1] * m2[2] + m1[3] * m2[3],
+            m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+            m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+        ];
+    }
+
+    /**
+     * Parse an SVG transform attribute into a single matrix.
+     * @private
+     */
+    function parseTransform(transform: string): ISVGMatrix {
+        var result: ISVGMatrix = [1, 0, 0, 1, 0, 0];
+        var re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+        var matches: RegExpExecArray;
+
+        while ((matches = re.exec(transform)) !== null) {
+            var n = parseNumericList(matches[2]);
+            var m: ISVGMatrix;
+
+            switch (matches[1]) {
+                case 'matrix':
+                    m = n.slice(0, 6);
+                    break;
+
+                case 'translate':
+                    m = [1, 0, 0, 1, n[0], n[1] || 0];
+                    break;
+
+                case 'scale':
+                    m = [n[0], 0, 0, n.length > 1 ? n[1] : n[0], 0, 0];
+                    break;
+
+                case 'rotate':
+                    var r = angle.toRadians(n[0]);
+                    var cos = Math.cos(r);
+                    var sin = Math.sin(r);
+                    m = [cos, sin, -sin, cos, 0, 0];
+
+                    if (n.length > 2) {
+                        m = multiplyMatrix(multiplyMatrix([1, 0, 0, 1, n[1], n[2]], m), [1, 0, 0, 1, -n[1], -n[2]]);
+                    }
+                    break;
+
+                case 'skewX':
+                    m = [1, 0, Math.tan(angle.toRadians(n[0])), 1, 0, 0];
+                    break;
+
+                case 'skewY':
+                    m = [1, Math.tan(angle.toRadians(n[0])), 0, 1, 0, 0];
+                    break;
+            }
+
+            result = multiplyMatrix(result, m);
+        }
+
+        return result;
+    }
+
+    /**
+     * Apply an SVG transform matrix to a model which has been imported into Maker.js coordinates.
+     * @private
+     */
+    function transformModel(modelToTransform: IModel, svgMatrix: ISVGMatrix): IModel {
+
+        //mirror the matrix on the y axis, since Y increases downward in SVG
+        var a = svgMatrix[0];
+        var b = -svgMatrix[1];
+        var c = -svgMatrix[2];
+        var d = svgMatrix[3];
+
+        //decompose into a rotation, a scale, then another rotation
+        var E = (a + d) / 2;
+        var F = (a - d) / 2;
+        var G = (b + c) / 2;
+        var H = (b - c) / 2;
+        var Q = Math.sqrt(E * E + H * H);
+        var R = Math.sqrt(F * F + G * G);
+        var scaleX = Q + R;
+        var scaleY = Q - R;
+        var a1 = Math.atan2(G, F);
+        var a2 = Math.atan2(H, E);
+        var rotation1 = angle.toDegrees((a2 - a1) / 2);
+        var rotation2 = angle.toDegrees((a2 + a1) / 2);
+
+        model.rotate(modelToTransform, rotation1, [0, 0]);
+
+        if (round(scaleX - Math.abs(scaleY)) === 0) {
+            if (scaleY < 0) {
+                modelToTransform = model.mirror(modelToTransform, false, true);
+            }
+            model.scale(modelToTransform, scaleX);
+
+        } else {
+            modelToTransform = model.distort(modelToTransform, scaleX, scaleY);
+        }
+
+        model.rotate(modelToTransform, rotation2, [0, 0]);
+
+        modelToTransform.origin = [svgMatrix[4], -svgMatrix[5]];
+        model.originate(modelToTransform);
+
+        return modelToTransform;
+    }
+
+    /**
+     * @private
+     */
+    function parseSvgElements(svgText: string, callback: (element: ISVGElement) => void) {
+        var reTag = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[?!][^>]*>|<(\/?)([\w:.-]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+        var reAttr = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+        var tagMatches: RegExpExecArray;
+
+        while ((tagMatches = reTag.exec(svgText)) !== null) {
+
+            //comments, declarations and processing instructions
+            if (!tagMatches[2]) continue;
+
+            var element: ISVGElement = {
+                tagName: tagMatches[2].replace(/^svg:/, ''),
+                attrs: {},
+                closing: !!tagMatches[1],
+                selfClosing: !!tagMatches[4]
             };
 
-            if (command === currCmd.command) {
-                currCmd.absolute = true;
+            var attrMatches: RegExpExecArray;
+            while ((attrMatches = reAttr.exec(tagMatches[3])) !== null) {
+                element.attrs[attrMatches[1]] = typeof attrMatches[2] === 'string' ? attrMatches[2] : attrMatches[3];
             }
 
-            currCmd.data = parseNumericList(dataString);
+            callback(element);
+        }
+    }
+
+    /**
+     * @private
+     */
+    function getSvgUnits(svgAttrs: { [name: string]: string }): { units: string; scale: number; } {
+        var size = /^\s*([\d.eE+-]+)\s*([a-z]*)\s*$/.exec(svgAttrs['width'] || '');
+        if (!size) return null;
+
+        for (var unit in exporter.svgUnit) {
+            var svgUnit = exporter.svgUnit[unit];
+            if (svgUnit.svgUnitType !== size[2] || svgUnit.scaleConversion !== 1) continue;
+
+            var viewBox = parseNumericList(svgAttrs['viewBox'] || '');
+            var scale: number;
+
+            if (viewBox.length === 4 && viewBox[2]) {
+                scale = parseFloat(size[1]) / viewBox[2];
+            } else {
+                //user units are pixels, at 96 per inch
+                scale = units.conversionScale(unitType.Inch, unit) / 96;
+            }
+
+            return { units: unit, scale: scale };
+        }
+
+        return null;
+    }
+
+    /**
+     * Create a model from an SVG document.
+     * 
+     * Supported elements are svg, g, path, line, polyline, polygon, rect, circle and ellipse. Transforms are applied, and groups become child models.
+     * 
+     * @param svgText String of SVG markup.
+     * @returns Model of the SVG drawing.
+     */
+    export function fromSVG(svgText: string): IModel {
+        var result: IModel = {};
+        var stack: ISVGGroupContext[] = [];
+        var elementCount = 0;
+
+        function current(): ISVGGroupContext {
+            return stack[stack.length - 1];
+        }
+
+        function num(attrs: { [name: string]: string }, name: string): number {
+            var value = parseFloat(attrs[name]);
+            return isNaN(value) ? 0 : value;
+        }
+
+        function svgPoint(x: number, y: number): IPoint {
+            return [x, -y];
+        }
+
+        function pointList(points: string): IPoint[] {
+            var coords = parseNumericList(points || '');
+            var result: IPoint[] = [];
+            for (var i = 0; i + 1 < coords.length; i += 2) {
+                result.push(svgPoint(coords[i], coords[i + 1]));
+            }
+            return result;
+        }
+
+        function addModel(parent: IModel, id: string, m: IModel) {
+            if (!parent.models) {
+                parent.models = {};
+            }
+            parent.models[model.getSimilarModelId(parent, id)] = m;
+        }
+
+        function addItem(element: ISVGElement, item: IPath | IModel) {
+            var parent = current().model;
+            var id = element.attrs['id'] || (element.tagName + '_' + ++elementCount);
+
+            if (isModel(item)) {
+                var m = item as IModel;
+
+                if (element.attrs['transform']) {
+                    m = transformModel(m, parseTransform(element.attrs['transform']));
+                }
+
+                addModel(parent, id, m);
+
+            } else if (element.attrs['transform']) {
+                var wrapper: IModel = { paths: {} };
+                wrapper.paths[element.tagName] = item as IPath;
+                addModel(parent, id, transformModel(wrapper, parseTransform(element.attrs['transform'])));
+
+            } else {
+                if (!parent.paths) {
+                    parent.paths = {};
+                }
+                parent.paths[model.getSimilarPathId(parent, id)] = item as IPath;
+            }
+        }
+
+        var map: { [tagName: string]: (attrs: { [name: string]: string }) => IPath | IModel } = {};
+
+        map['path'] = function (attrs: { [name: string]: string }) {
+            return fromSVGPathData(attrs['d'] || '');
+        };
+
+        map['line'] = function (attrs: { [name: string]: string }) {
+            return new paths.Line(svgPoint(num(attrs, 'x1'), num(attrs, 'y1')), svgPoint(num(attrs, 'x2'), num(attrs, 'y2')));
+        };
+
+        map['polyline'] = function (attrs: { [name: string]: string }) {
+            return new models.ConnectTheDots(false, pointList(attrs['points']));
+        };
+
+        map['polygon'] = function (attrs: { [name: string]: string }) {
+            return new models.ConnectTheDots(true, pointList(attrs['points']));
+        };
+
+        map['rect'] = function (attrs: { [name: string]: string }) {
+            var x = num(attrs, 'x');
+            var y = num(attrs, 'y');
+            var w = num(attrs, 'width');
+            var h = num(attrs, 'height');
+            var rx = ('rx' in attrs) ? num(attrs, 'rx') : num(attrs, 'ry');
+            var ry = ('ry' in attrs) ? num(attrs, 'ry') : rx;
+
+            rx = Math.min(rx, w / 2);
+            ry = Math.min(ry, h / 2);
+
+            if (rx > 0 && ry > 0) {
+                var corner: (string | number)[] = ['A', rx, ry, 0, 0, 1];
+                var start: (string | number)[] = ['M', x + rx, y, 'H', x + w - rx];
+                var d = start
+                    .concat(corner, [x + w, y + ry, 'V', y + h - ry])
+                    .concat(corner, [x + w - rx, y + h, 'H', x + rx])
+                    .concat(corner, [x, y + h - ry, 'V', y + ry])
+                    .concat(corner, [x + rx, y, 'Z']);
+
+                return fromSVGPathData(d.join(' '));
+            }
+
+            return new models.ConnectTheDots(true, [svgPoint(x, y), svgPoint(x + w, y), svgPoint(x + w, y + h), svgPoint(x, y + h)]);
+        };
+
+        map['circle'] = function (attrs: { [name: string]: string }) {
+            return new paths.Circle(svgPoint(num(attrs, 'cx'), num(attrs, 'cy')), num(attrs, 'r'));
+        };
+
+        map['ellipse'] = function (attrs: { [name: string]: string }) {
+            var center = svgPoint(num(attrs, 'cx'), num(attrs, 'cy'));
+            var rx = num(attrs, 'rx');
+            var ry = num(attrs, 'ry');
+
+            if (rx === ry) {
+                return new paths.Circle(center, rx);
+            }
+
+            return new paths.Ellipse(center, rx, ry);
+        };
+
+        function openGroup(element: ISVGElement) {
+            var parent = current();
+            var context: ISVGGroupContext = {
+                tagName: element.tagName,
+                id: element.attrs['id'] || (element.tagName + '_' + ++elementCount),
+                model: {},
+                transform: element.attrs['transform'],
+                skip: (parent && parent.skip) || svgSkipElements.indexOf(element.tagName) >= 0
+            };
+
+            if (!parent && element.tagName === 'svg') {
+                context.model = result;
+
+                var svgUnits = getSvgUnits(element.attrs);
+                if (svgUnits) {
+                    result.units = svgUnits.units;
+
+                    if (svgUnits.scale !== 1) {
+                        context.transform = 'scale(' + svgUnits.scale + ')';
+                    }
+                }
+            }
+
+            stack.push(context);
+        }
+
+        function closeGroup() {
+            var context = stack.pop();
+            var parent = current();
+
+            if (context.skip) return;
+
+            var m = context.model;
+
+            if (context.transform) {
+                m = transformModel(m, parseTransform(context.transform));
+            }
+
+            if (parent) {
+                if (m.paths || m.models) {
+                    addModel(parent.model, context.id, m);
+                }
+            } else if (m !== result) {
+                result.paths = m.paths;
+                result.models = m.models;
+            }
+        }
+
+        parseSvgElements(svgText, function (element: ISVGElement) {
+
+            var fn = map[element.tagName];
 
-            var fn = map[currCmd.command];
             if (fn) {
-                currPoint = fn(currCmd);
+                if (!element.closing && current() && !current().skip) {
+                    addItem(element, fn(element.attrs));
+                }
+                return;
             }
 
-            prevCommand = currCmd;
+            if (element.closing) {
+                if (stack.length) {
+                    closeGroup();
+                }
+            } else {
+                openGroup(element);
+
+                if (element.selfClosing) {
+                    closeGroup();
+                }
+            }
+        });
+
+        //unclosed tags
+        while (stack.length) {
+            closeGroup();
         }
 
         return result;
@@ -0,0 +1,230 @@
+namespace MakerJs.chain {
+
+    /**
+     * A path of a chain, in absolute coordinates, with its distance along the chain.
+     * @private
+     */
+    interface ITabLink {
+        pathContext: IPath;
+        reversed: boolean;
+        start: number;
+        length: number;
+    }
+
+    /**
+     * @private
+     */
+    function tabLinks(chainToTab: IChain): ITabLink[] {
+        var result: ITabLink[] = [];
+        var distance = 0;
+
+        chainToTab.links.forEach(function (link: IChainLink) {
+            var pathContext = path.moveRelative(path.clone(link.walkedPath.pathContext), link.walkedPath.offset);
+
+            //a circle is broken as a full arc
+            if (pathContext.type === pathType.Circle) {
+                var circle = <IPathCircle>pathContext;
+                pathContext = new paths.Arc(circle.origin, circle.radius, 0, 360);
+            }
+
+            var length = measure.pathLength(pathContext) || 0;
+
+            result.push({
+                pathContext: pathContext,
+                reversed: link.reversed,
+                start: distance,
+                length: length
+            });
+
+            distance += length;
+        });
+
+        return result;
+    }
+
+    /**
+     * Ratio along a path in its own direction, of a distance along the chain.
+     * @private
+     */
+    function linkRatio(tabLink: ITabLink, distance: number): number {
+        var ratio = (distance - tabLink.start) / tabLink.length;
+        return tabLink.reversed ? 1 - ratio : ratio;
+    }
+
+    /**
+     * Move a tab center so that the tab is within one link, away from the corners of the chain.
+     * @private
+     */
+    function avoidCorners(center: number, width: number, links: ITabLink[]): number {
+        var closest: number = null;
+
+        links.forEach(function (tabLink: ITabLink) {
+            if (tabLink.length <= width) return;
+
+            var low = tabLink.start + width / 2;
+            var high = tabLink.start + tabLink.length - width / 2;
+            var moved = Math.min(high, Math.max(low, center));
+
+            if (closest === null || Math.abs(moved - center) < Math.abs(closest - center)) {
+                closest = moved;
+            }
+        });
+
+        return closest === null ? center : closest;
+    }
+
+    /**
+     * Break the paths of a chain to leave gaps for holding tabs, such as when cutting parts from sheet material.
+     *
+     * Lines, arcs and circles are broken, including the arcs of BezierCurve models. Other path types are not given tabs.
+     *
+     * Example:
+     * ```
+     * var outline = makerjs.chain.addTabs(chain, { count: 4, width: 5, avoidCorners: true });
+     * ```
+     *
+     * @param chainToTab The chain to add tabs to.
+     * @param options Options object, which must specify the width of a tab.
+     * @returns A new model containing the paths of the chain with gaps at the tabs. When a tab layer is specified, the tabs are paths of a child model named "tabs" on that layer.
+     */
+    export function addTabs(chainToTab: IChain, options: IChainTabOptions): IModel {
+
+        var opts: IChainTabOptions = {
+            width: 0,
+            count: 4
+        };
+
+        extendObject(opts, options);
+
+        var links = tabLinks(chainToTab);
+        var last = links[links.length - 1];
+        var chainLength = last.start + last.length;
+        var count = opts.spacing > 0 ? Math.max(1, Math.round(chainLength / opts.spacing)) : opts.count;
+
+        var result: IModel = { paths: {} };
+        var tabs: IModel = { paths: {} };
+
+        if (opts.tabLayer) {
+            tabs.layer = opts.tabLayer;
+            result.models = { tabs: tabs };
+        }
+
+        var pathCount = 0;
+
+        function addPath(modelContext: IModel, pathToAdd: IPath) {
+            pathCount++;
+            modelContext.paths[pathToAdd.type + '_' + pathCount] = pathToAdd;
+        }
+
+        var centers: number[] = [];
+
+        //tabs must not overlap each other
+        if (opts.width > 0 && count > 0 && count * opts.width < chainLength) {
+            for (var i = 0; i < count; i++) {
+                var center = (i + .5) * chainLength / count;
+
+                if (opts.avoidCorners) {
+                    center = avoidCorners(center, opts.width, links);
+                }
+
+                centers.push(center);
+            }
+        }
+
+        function isInTab(distance: number): boolean {
+            for (var i = 0; i < centers.length; i++) {
+                var gap = Math.abs(distance - centers[i]);
+
+                //tabs may wrap around the start of an endless chain
+                if (chainToTab.endless) {
+                    gap = Math.min(gap, chainLength - gap);
+                }
+
+                if (gap < opts.width / 2) return true;
+            }
+            return false;
+        }
+
+        links.forEach(function (tabLink: ITabLink) {
+            var end = tabLink.start + tabLink.length;
+            var ratios: number[] = [];
+
+            //distances along the chain where a tab begins or ends
+            centers.forEach(function (center: number) {
+                [center - opts.width / 2, center + opts.width / 2].forEach(function (distance: number) {
+                    [distance, distance - chainLength, distance + chainLength].forEach(function (d: number) {
+                        if (d > tabLink.start && d < end) {
+                            ratios.push(linkRatio(tabLink, d));
+                        }
+                    });
+                });
+            });
+
+            ratios.sort(function (a: number, b: number) { return a - b; });
+
+            //find the points before the path is changed by breaking it
+            var breakPoints = ratios.map(function (ratio: number) { return point.middle(tabLink.pathContext, ratio); });
+            ratios.push(1);
+
+            var remaining = tabLink.pathContext;
+            var previousRatio = 0;
+
+            ratios.forEach(function (ratio: number, i: number) {
+                var piece = remaining;
+
+                //break in the direction of the path, so that the remainder is always after the break
+                if (i < breakPoints.length) {
+                    remaining = path.breakAtPoint(remaining, breakPoints[i]);
+                    if (!remaining) {
+                        remaining = piece;
+                        return;
+                    }
+                }
+
+                var middleRatio = (previousRatio + ratio) / 2;
+                var middleDistance = tabLink.start + (tabLink.reversed ? 1 - middleRatio : middleRatio) * tabLink.length;
+
+                if (!isInTab(middleDistance)) {
+                    addPath(result, piece);
+                } else if (opts.tabLayer) {
+                    addPath(tabs, piece);
+                }
+
+                previousRatio = ratio;
+            });
+        });
+
+        return result;
+    }
+
+    /**
+     * Options to pass to chain.addTabs.
+     */
+    export interface IChainTabOptions {
+
+        /**
+         * Width of each tab, measured along the chain.
+         */
+        width: number;
+
+        /**
+         * Optional number of tabs, evenly spaced along the chain. Default is 4.
+         */
+        count?: number;
+
+        /**
+         * Optional distance between tabs along the chain. This takes precedence over count.
+         */
+        spacing?: number;
+
+        /**
+         * Flag to move tabs away from the corners between the paths of the chain.
+         */
+        avoidCorners?: boolean;
+
+        /**
+         * Optional layer of the tabs. When specified, tabs are kept as paths on this layer, such as for cutting with reduced depth. Otherwise, tabs are gaps.
+         */
+        tabLayer?: string;
+    }
+}
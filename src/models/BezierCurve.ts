@@ -36,7 +36,8 @@
             return bp;
         });
 
-        if (!scratch) {
+        //bezier-js does not change the order of an existing curve
+        if (!scratch || scratch.points.length !== bezierJsPoints.length) {
 
             ensureBezierLib();
             scratch = new Bezier(bezierJsPoints);
@@ -53,7 +54,7 @@
      */
     function BezierToSeed(b: BezierJs.Bezier, range?: IBezierRange): IPathBezierSeed {
         var points = b.points.map(function (p) { return [p.x, p.y] as IPoint; });
-        var seed = new BezierSeed(points) as IPathBezierSeed;
+        var seed = new paths.BezierSeed(points) as IPathBezierSeed;
         if (range) {
             seed.parentRange = range;
         }
@@ -92,91 +93,37 @@
     }
 
     /**
+     * Newton's method on a pair of t values, to the crossing of two curves.
      * @private
-     * Class for bezier seed.
      */
-    class BezierSeed implements IPathBezierSeed {
-        public type: string;
-        public origin: IPoint;
-        public end: IPoint
-        public controls: IPoint[];
-
-        /**
-         * Class for bezier seed, created from point array.
-         * 
-         * @param points Array of points, with the first being the origin, and the last being the end, and points between used as control points.
-         */
-        constructor(points: IPoint[]);
-
-        /**
-         * Class for quadratic bezier seed.
-         * 
-         * @param origin The origin point of the curve.
-         * @param control The control point of the curve.
-         * @param end The end point of the curve.
-         */
-        constructor(origin: IPoint, control: IPoint, end: IPoint);
-
-        /**
-         * Class for cubic bezier seed.
-         * 
-         * @param origin The origin point of the curve.
-         * @param controls The control points of the curve.
-         * @param end The end point of the curve.
-         */
-        constructor(origin: IPoint, controls: IPoint[], end: IPoint);
-
-        /**
-         * Class for cubic bezier seed.
-         * 
-         * @param origin The origin point of the curve.
-         * @param control1 The control point of the curve origin.
-         * @param control1 The control point of the curve end.
-         * @param end The end point of the curve.
-         */
-        constructor(origin: IPoint, control1: IPoint, control2: IPoint, end: IPoint);
-
-        constructor(...args: any[]) {
-            this.type = pathType.BezierSeed;
-
-            switch (args.length) {
-
-                case 1: //point array
-                    var points = args[0] as IPoint[];
-
-                    this.origin = points[0];
-
-                    if (points.length === 3) {
-                        this.controls = [points[1]];
-                        this.end = points[2];
-
-                    } else if (points.length === 4) {
-                        this.controls = [points[1], points[2]];
-                        this.end = points[3];
+    function refineIntersection(a: BezierJs.Bezier, b: BezierJs.Bezier, ts: number[]): number[] {
+        var t1 = ts[0];
+        var t2 = ts[1];
 
-                    } else {
-                        this.end = points[1];
-                    }
+        for (var i = 0; i < 8; i++) {
+            var pa = a.get(t1);
+            var pb = b.get(t2);
+            var dx = pa.x - pb.x;
+            var dy = pa.y - pb.y;
 
-                    break;
+            if (Math.abs(dx) < 1e-12 && Math.abs(dy) < 1e-12) break;
 
-                case 3: //quadratic or cubic
-                    if (Array.isArray(args[1])) {
-                        this.controls = args[1] as IPoint[];
-                    } else {
-                        this.controls = [args[1] as IPoint];
-                    }
+            //solve a'(t1) * d1 - b'(t2) * d2 = -(a(t1) - b(t2))
+            var da = a.derivative(t1);
+            var db = b.derivative(t2);
+            var det = -da.x * db.y + db.x * da.y;
 
-                    this.end = args[2] as IPoint;
-                    break;
+            //tangent curves do not converge
+            if (Math.abs(det) < 1e-12) return ts;
 
-                case 4: //cubic params
-                    this.controls = [args[1] as IPoint, args[2] as IPoint];
-                    this.end = args[3] as IPoint;
-                    break;
-            }
+            var d1 = (-dx * -db.y - -db.x * -dy) / det;
+            var d2 = (da.x * -dy - -dx * da.y) / det;
 
+            t1 = Math.min(Math.max(t1 + d1, 0), 1);
+            t2 = Math.min(Math.max(t2 + d2, 0), 1);
         }
+
+        return [t1, t2];
     }
 
     export class BezierCurve implements IModel {
@@ -225,7 +172,7 @@
 
                         var points = args[0] as IPoint[];
 
-                        this.seed = new BezierSeed(points);
+                        this.seed = new paths.BezierSeed(points);
                     } else {
                         this.seed = args[0] as IPathBezierSeed;
                     }
@@ -235,7 +182,7 @@
                     switch (args.length) {
                         case 4:
                             if (isPoint(args[3])) {
-                                this.seed = new BezierSeed(args as IPoint[]);
+                                this.seed = new paths.BezierSeed(args as IPoint[]);
                                 break;
                             } else {
                                 this.accuracy = args[3] as number;
@@ -243,7 +190,7 @@
                             }
                         case 3:
                             if (isArrayArg0) {
-                                this.seed = new BezierSeed(args.slice(0, 3) as IPoint[]);
+                                this.seed = new paths.BezierSeed(args.slice(0, 3) as IPoint[]);
                             } else {
                                 this.seed = args[0] as IPathBezierSeed;
                                 isLeaf = args[1] as boolean;
@@ -253,7 +200,7 @@
 
                         case 5:
                             this.accuracy = args[4] as number;
-                            this.seed = new BezierSeed(args.slice(0, 4) as IPoint[]);
+                            this.seed = new paths.BezierSeed(args.slice(0, 4) as IPoint[]);
                             break;
                     }
                     break;
@@ -419,6 +366,58 @@
             return [computedPoint.x, computedPoint.y];
         }
 
+        public static computeDerivative(seed: IPathBezierSeed, t: number): IPoint {
+            var derivative = getScratch(seed).derivative(t);
+
+            return [derivative.x, derivative.y];
+        }
+
+        public static computeLength(seed: IPathBezierSeed): number {
+            return getScratch(seed).length();
+        }
+
+        public static computeExtents(seed: IPathBezierSeed): IMeasure {
+            var bbox = getScratch(seed).bbox();
+
+            return {
+                low: [bbox.x.min, bbox.y.min],
+                high: [bbox.x.max, bbox.y.max]
+            };
+        }
+
+        public static computeLineIntersections(seed: IPathBezierSeed, line: IPathLine): number[] {
+            var bezierJsLine: BezierJs.Line = {
+                p1: { x: line.origin[0], y: line.origin[1] },
+                p2: { x: line.end[0], y: line.end[1] }
+            };
+
+            return getScratch(seed).lineIntersects(bezierJsLine);
+        }
+
+        public static computeSeedIntersections(seedA: IPathBezierSeed, seedB: IPathBezierSeed): number[][] {
+            var threshold = .005;
+            var b = seedToBezier(seedA);
+            var bB = seedToBezier(seedB);
+            var points: BezierJs.Point[] = [];
+            var result: number[][] = [];
+
+            //bezier-js returns pairs of rounded t values as "t1/t2" strings
+            (b.intersects(bB, threshold) as string[]).forEach(function (pair: string) {
+                var ts = refineIntersection(b, bB, pair.split('/').map(function (t: string) { return parseFloat(t); }));
+                var p = b.get(ts[0]);
+
+                //adjacent subdivisions of the curves may report the same crossing
+                for (var i = 0; i < points.length; i++) {
+                    if (Math.abs(points[i].x - p.x) <= threshold && Math.abs(points[i].y - p.y) <= threshold) return;
+                }
+
+                points.push(p);
+                result.push(ts);
+            });
+
+            return result;
+        }
+
     }
 
     (<IKit>BezierCurve).metaParameters = [
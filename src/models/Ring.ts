@@ -4,7 +4,7 @@ namespace MakerJs.models {
 
         public paths: IPathMap = {};
 
-        constructor(outerRadius: number, innerRadius: number) {
+        constructor(outerRadius: number, innerRadius?: number) {
 
             var radii = {
                 "Ring_outer": outerRadius,
@@ -12,7 +12,11 @@ namespace MakerJs.models {
             };
 
             for (var id in radii) {
-                this.paths[id] = new paths.Circle(point.zero(), radii[id]);
+
+                //an inner radius may be omitted, and there is none when a circle is expanded by its own radius or more
+                if (radii[id] > 0) {
+                    this.paths[id] = new paths.Circle(point.zero(), radii[id]);
+                }
             }
         }
     }